@@ -1,15 +1,183 @@
+import { createHash } from 'node:crypto';
+import { MemoryCache } from '../runtime/memory-cache';
+
 // Types definition
 // ===========================================================
 
 export namespace ApiCallDeduplicator {
+    export type ConstructorOptions = {
+        cacheMs?: number;
+        errorCacheMs?: number;
+        cache?: MemoryCache;
+        namespace?: string;
+        hashKeys?: boolean;
+    };
     export type Options = {
         timeout?: number;
+        signal?: AbortSignal;
+        cacheMs?: number;
+        errorCacheMs?: number;
     };
-    export type Call<T = any> = {
+    export type Task<T> = (signal: AbortSignal) => T | Promise<T>;
+    export type Deferred<T = any> = {
         promise: Promise<T>;
         resolve: (value: T) => void;
         reject: (reason?: unknown) => void;
     };
+    export type Call<T = any> = Deferred<T> & {
+        controller: AbortController;
+        waiters: number;
+        startedAt: number;
+    };
+    export type CallInfo = {
+        key: string;
+        startedAt: number;
+        waiters: number;
+    };
+    export type Stats = {
+        requests: number;
+        executed: number;
+        collapsed: number;
+        cacheHits: number;
+        inFlight: number;
+        timedOut: number;
+        cleared: number;
+    };
+    export type Result<T = any> = { value: T } | { error: unknown };
+    export type CachedResult = {
+        result: Result;
+        expireAt: number;
+    };
+}
+
+// Errors definition
+// ===========================================================
+
+/**
+ * Error thrown to the callers of a call that timed out
+ */
+export class DedupTimeoutError extends Error {
+    /** Key of the call */
+    public readonly key: string;
+
+    /** Timeout of the call in milliseconds */
+    public readonly timeoutMs: number;
+
+    /**
+     * @param key Key of the call
+     * @param timeoutMs Timeout of the call in milliseconds
+     */
+    constructor(key: string, timeoutMs: number) {
+        super('Call timed out');
+        this.name = 'DedupTimeoutError';
+        this.key = key;
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Error thrown to the callers of a call removed by clearAllRequests
+ */
+export class DedupClearedError extends Error {
+    /** Key of the call */
+    public readonly key: string;
+
+    /**
+     * @param key Key of the call
+     * @param reason Reason given to clearAllRequests
+     */
+    constructor(key: string, reason: string) {
+        super(reason);
+        this.name = 'DedupClearedError';
+        this.key = key;
+    }
+}
+
+// Functions definition
+// ===========================================================
+
+/**
+ * Serializes a value to a canonical string: equal values always give the same string,
+ * and values of different types or structures never do
+ * Strings are quoted, object keys are sorted, Maps and Sets are sorted by their serialized
+ * entries, Dates, URLs, RegExps and binary values are tagged. Other class instances are
+ * serialized through their `toJSON` method, tagged with their class name. Object properties
+ * set to undefined are ignored.
+ * @param value The value to serialize
+ * @param seen Objects being serialized, to detect circular structures
+ * @returns The canonical string
+ * @throws Error if the value contains a function, a symbol, a circular structure, or a class instance without `toJSON`
+ */
+function canonicalize(value: unknown, seen: Set<object> = new Set()): string {
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value);
+        case 'number':
+        case 'boolean':
+        case 'undefined':
+            return String(value);
+        case 'bigint':
+            return `${value}n`;
+        case 'function':
+        case 'symbol':
+            throw new Error(`Cannot create a key from a ${typeof value}`);
+    }
+    if (value === null) {
+        return 'null';
+    }
+    if (seen.has(value as object)) {
+        throw new Error('Cannot create a key from a circular structure');
+    }
+
+    seen.add(value as object);
+    try {
+        if (value instanceof Date) {
+            return `Date(${value.getTime()})`;
+        }
+        if (value instanceof URL) {
+            return `URL(${JSON.stringify(value.href)})`;
+        }
+        if (value instanceof RegExp) {
+            return `RegExp(${JSON.stringify(value.source)},${JSON.stringify(value.flags)})`;
+        }
+        if (ArrayBuffer.isView(value)) {
+            const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+            return `${value.constructor.name}(${bytes.toString('hex')})`;
+        }
+        if (value instanceof ArrayBuffer || value instanceof SharedArrayBuffer) {
+            return `${value.constructor.name}(${Buffer.from(value).toString('hex')})`;
+        }
+        if (Array.isArray(value)) {
+            return `[${value.map((item) => canonicalize(item, seen)).join(',')}]`;
+        }
+        if (value instanceof Map) {
+            const entries = [...value].map(([key, item]) => `${canonicalize(key, seen)}:${canonicalize(item, seen)}`);
+            return `Map{${entries.sort().join(',')}}`;
+        }
+        if (value instanceof Set) {
+            const items = [...value].map((item) => canonicalize(item, seen));
+            return `Set[${items.sort().join(',')}]`;
+        }
+
+        // Class instances have no reliable own keys (private fields, getters): toJSON or nothing
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype !== Object.prototype && prototype !== null) {
+            const toJSON = (value as { toJSON?: unknown }).toJSON;
+            if (typeof toJSON !== 'function') {
+                throw new Error(`Cannot create a key from a ${prototype.constructor?.name ?? 'class'} instance without toJSON`);
+            }
+            return `${prototype.constructor?.name ?? 'Object'}(${canonicalize(toJSON.call(value), seen)})`;
+        }
+
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key], seen)}`);
+        return `{${entries.join(',')}}`;
+    } finally {
+        seen.delete(value as object);
+    }
 }
 
 // Class definition
@@ -18,20 +186,76 @@ export namespace ApiCallDeduplicator {
 /**
  * CallDeduplicator class that prevents duplicate calls by caching each call
  * for in-flight requests with the same key, allowing efficient reuse of results
+ *
+ * Settled results can also be kept for a short grace period (`cacheMs`, and `errorCacheMs`
+ * for rejections), so that callers arriving right after the call ends reuse its result.
+ *
+ * Each caller can stop waiting with its own signal without affecting the others. The task
+ * receives a signal that is aborted when the last caller leaves, on timeout, or when the
+ * requests are cleared, so that the underlying work (e.g. an HTTP call) can really stop.
  */
 export class ApiCallDeduplicator {
     /** Map of active requests indexed by their unique keys */
     private requests = new Map<string, ApiCallDeduplicator.Call>();
 
+    /** Settled results kept in memory (rejections, and values when there is no backing cache) */
+    private results = new Map<string, ApiCallDeduplicator.CachedResult>();
+
+    /** Cache holding the resolved values, null to keep them in memory */
+    private readonly cache: MemoryCache | null;
+
+    /** Default grace periods in milliseconds for resolved values and rejections */
+    private readonly cacheMs: number;
+    private readonly errorCacheMs: number;
+
+    /** Counters reported by stats() */
+    private counters = { requests: 0, executed: 0, collapsed: 0, cacheHits: 0, timedOut: 0, cleared: 0 };
+
+    /** Prefix of the keys created by createKey, empty if none */
+    private readonly namespace: string;
+
+    /** Whether createKey hashes the keys to a fixed length */
+    private readonly hashKeys: boolean;
+
+    /**
+     * Creates a new deduplicator
+     * @param options Configuration options
+     * @param options.cacheMs Time in milliseconds a resolved value is reused after the call ends, 0 to never reuse it (default: 0)
+     * @param options.errorCacheMs Time in milliseconds a rejection is reused after the call ends, 0 to never reuse it (default: 0)
+     * @param options.cache MemoryCache holding the resolved values, e.g. to bound their memory usage (default: none, kept in memory)
+     * @param options.namespace Prefix of the keys created by createKey, e.g. to share a cache between deduplicators (default: none)
+     * @param options.hashKeys Hashes the keys created by createKey to a fixed length (SHA-256, base64url) (default: false)
+     * @throws Error if cacheMs or errorCacheMs is negative
+     */
+    constructor(options: ApiCallDeduplicator.ConstructorOptions = {}) {
+        const { cacheMs = 0, errorCacheMs = 0, cache = null, namespace = '', hashKeys = false } = options;
+
+        if (!(cacheMs >= 0) || !(errorCacheMs >= 0)) {
+            throw new Error('cacheMs and errorCacheMs must be >= 0');
+        }
+
+        this.cacheMs = cacheMs;
+        this.errorCacheMs = errorCacheMs;
+        this.cache = cache;
+        this.namespace = namespace;
+        this.hashKeys = hashKeys;
+    }
+
     // Public
 
     /**
      * Creates a key from multiple arguments
+     * Arguments can be primitives, Dates, URLs, RegExps, binary values, class instances with `toJSON`,
+     * or nested arrays, objects, Maps and Sets: the key is case-sensitive and doesn't depend on the
+     * order of object keys, Map or Set entries.
      * @param args Array of values to combine into a unique key
-     * @returns A string key that uniquely identifies this combination of arguments
+     * @returns A string key that uniquely identifies this combination of arguments, prefixed with `namespace:` if any
+     * @throws Error if an argument contains a function, a symbol, a circular structure, or a class instance without `toJSON`
      */
-    public createKey(...args: (string | number | bigint)[]): string {
-        return args.join('_').toLowerCase();
+    public createKey(...args: unknown[]): string {
+        const serialized = canonicalize(args);
+        const key = this.hashKeys ? createHash('sha256').update(serialized).digest('base64url') : serialized;
+        return this.namespace ? `${this.namespace}:${key}` : key;
     }
 
     /**
@@ -44,53 +268,119 @@ export class ApiCallDeduplicator {
     }
 
     /**
-     * Clears all pending requests and rejects them with the given reason
+     * Returns the calls currently in progress
+     * @returns The key, start time and number of waiting callers of each call
+     */
+    public inFlight(): ApiCallDeduplicator.CallInfo[] {
+        return [...this.requests].map(([key, call]) => ({ key, startedAt: call.startedAt, waiters: call.waiters }));
+    }
+
+    /**
+     * Returns the request counters
+     * `executed` counts the tasks actually run, `collapsed` the requests that joined a call in progress,
+     * and `cacheHits` the requests served from a result kept after the call ended.
+     * @returns The deduplicator statistics
+     */
+    public stats(): ApiCallDeduplicator.Stats {
+        return { ...this.counters, inFlight: this.requests.size };
+    }
+
+    /**
+     * Clears all pending requests, rejects them with a DedupClearedError and aborts their tasks
      * @param reason reason for rejection
      */
     public clearAllRequests(reason: string): void {
         if (!reason || typeof reason !== 'string') {
             throw new Error('Invalid reason provided to clearAllRequests method');
         }
-        this.requests.forEach((request) => {
-            request.reject(new Error(reason));
+        this.requests.forEach((request, key) => {
+            this.counters.cleared++;
+            this.abortCall(key, request, new DedupClearedError(key, reason));
         });
-        this.requests.clear();
+    }
+
+    /**
+     * Forgets the settled result of a call, so that the next request runs the task again
+     * @param key The unique identifier for the call
+     * @returns True if a result was kept for this key
+     */
+    public forget(key: string): boolean {
+        const removed = this.results.delete(key);
+        const removedFromCache = this.cache?.delete(key) ?? false;
+        return removed || removedFromCache;
     }
 
     /**
      * Retrieves an existing call by its key if available
      * @param key The unique identifier for the call
-     * @param task The function to execute (can be sync or async)
+     * @param task The function to execute (can be sync or async), receiving a signal aborted when the call is abandoned
      * @param options Options for the request
      * @param options.timeout Timeout for the request, 0 for no timeout (default)
-     * @returns The promise for the call result
+     * @param options.signal Signal to stop waiting for the call, the task is aborted only once every caller left
+     * @param options.cacheMs Time in milliseconds the resolved value is reused after the call ends (default: cacheMs of the deduplicator)
+     * @param options.errorCacheMs Time in milliseconds the rejection is reused after the call ends (default: errorCacheMs of the deduplicator)
+     * @returns The promise for the call result, rejected with the signal's reason if the caller aborts
+     * @throws DedupTimeoutError (through the promise) if the call times out
+     * @throws DedupClearedError (through the promise) if the call is cleared by clearAllRequests
      */
-    public request<T>(key: string, task: () => T | Promise<T>, options: ApiCallDeduplicator.Options = {}): Promise<T> {
+    public request<T>(key: string, task: ApiCallDeduplicator.Task<T>, options: ApiCallDeduplicator.Options = {}): Promise<T> {
         if (!key || typeof key !== 'string') {
             throw new Error('Invalid key provided to call method');
         }
+        if (options.signal?.aborted) {
+            return Promise.reject(options.signal.reason);
+        }
+        this.counters.requests++;
+
+        const cached = this.getResult<T>(key);
+        if (cached) {
+            this.counters.cacheHits++;
+            return 'value' in cached ? Promise.resolve(cached.value) : Promise.reject(cached.error);
+        }
 
-        if (this.requests.has(key)) {
-            return this.requests.get(key)!.promise as Promise<T>;
+        const existing = this.requests.get(key);
+        if (existing) {
+            this.counters.collapsed++;
+            return this.join(key, existing as ApiCallDeduplicator.Call<T>, options.signal);
         }
 
-        const { promise, resolve, reject } = this.createPromise<T>();
-        this.requests.set(key, { promise, resolve, reject });
+        const call: ApiCallDeduplicator.Call<T> = {
+            ...this.createPromise<T>(),
+            controller: new AbortController(),
+            waiters: 0,
+            startedAt: Date.now(),
+        };
+        this.counters.executed++;
+        const { resolve, reject } = call;
+        this.requests.set(key, call);
+
+        const clearTimeoutRequest = this.timeoutRequest(key, call, options.timeout);
 
-        const clearTimeoutRequest = this.timeoutRequest(key, options.timeout);
+        // Keeps the result (unless the call timed out or was cleared meanwhile) and ends the call
+        const settle = (result: ApiCallDeduplicator.Result<T>) => {
+            clearTimeoutRequest();
+            if (this.requests.get(key) === call) {
+                this.requests.delete(key);
+                this.setResult(key, result, 'value' in result
+                    ? options.cacheMs ?? this.cacheMs
+                    : options.errorCacheMs ?? this.errorCacheMs);
+            }
+            if ('value' in result) {
+                resolve(result.value);
+            } else {
+                reject(result.error);
+            }
+        };
+
+        const promise = this.join(key, call, options.signal);
 
         try {
-            Promise.resolve(task())
-                .then(resolve)
-                .catch(reject)
-                .finally(() => {
-                    clearTimeoutRequest();
-                    this.requests.delete(key);
-                });
+            Promise.resolve(task(call.controller.signal)).then(
+                (value) => settle({ value }),
+                (error) => settle({ error }),
+            );
         } catch (err) {
-            reject(err);
-            clearTimeoutRequest();
-            this.requests.delete(key);
+            settle({ error: err });
         }
 
         return promise;
@@ -98,11 +388,55 @@ export class ApiCallDeduplicator {
 
     // Private
 
+    /**
+     * Adds a caller to a call
+     * A caller with a signal gets its own promise, and leaves the call when its signal is aborted:
+     * the call is then abandoned (and its task aborted) if no other caller is waiting.
+     * @param key The unique identifier for the call
+     * @param call The call to wait for
+     * @param signal Signal of the caller, if any
+     * @returns The promise for the call result
+     */
+    private join<T>(key: string, call: ApiCallDeduplicator.Call<T>, signal?: AbortSignal): Promise<T> {
+        call.waiters++;
+        if (!signal) {
+            return call.promise;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                call.waiters--;
+                if (call.waiters === 0) {
+                    this.abortCall(key, call, signal.reason);
+                }
+                reject(signal.reason);
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            call.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Ends a call that is still in progress: rejects its callers and aborts its task
+     * @param key The unique identifier for the call
+     * @param call The call to end (nothing happens if it already ended)
+     * @param reason The reason for rejection
+     */
+    private abortCall(key: string, call: ApiCallDeduplicator.Call, reason: unknown): void {
+        if (this.requests.get(key) !== call) {
+            return;
+        }
+        this.requests.delete(key);
+        call.reject(reason);
+        call.controller.abort(reason);
+    }
+
     /**
      * Creates a new promise with externally accessible resolve and reject functions
      * @returns Object containing the promise and its resolve/reject functions
      */
-    private createPromise<T>(): ApiCallDeduplicator.Call<T> {
+    private createPromise<T>(): ApiCallDeduplicator.Deferred<T> {
         let resolve!: (value: T) => void;
         let reject!: (reason?: unknown) => void;
 
@@ -115,20 +449,69 @@ export class ApiCallDeduplicator {
     }
 
     /**
-     * Creates a timeout for a request
+     * Returns the settled result kept for a key, if it is still valid
      * @param key The unique identifier for the call
-     * @returns The timeout object
+     * @returns The result, or null if none is kept
      */
-    private timeoutRequest(key: string, timeoutMs?: number): () => void {
+    private getResult<T>(key: string): ApiCallDeduplicator.Result<T> | null {
+        const cached = this.results.get(key);
+        if (cached) {
+            if (Date.now() < cached.expireAt) {
+                return cached.result;
+            }
+            this.results.delete(key);
+        }
+        // Peeks, so that reads don't extend the grace period under sliding expiration
+        return this.cache?.peek<ApiCallDeduplicator.Result<T>>(key) ?? null;
+    }
+
+    /**
+     * Keeps the settled result of a call for a grace period
+     * Resolved values go to the backing cache if any, rejections always stay in memory
+     * as errors don't survive cloning. Expired results are removed by an unref'd timer.
+     * A value the backing cache refuses (not cloneable, too large) is simply not kept.
+     * @param key The unique identifier for the call
+     * @param result The result of the call
+     * @param ttlMs Time in milliseconds the result is kept, 0 to not keep it
+     */
+    private setResult(key: string, result: ApiCallDeduplicator.Result, ttlMs: number): void {
+        if (!(ttlMs > 0)) {
+            return;
+        }
+        if (this.cache && 'value' in result) {
+            try {
+                this.cache.set(key, result, { ttlSeconds: ttlMs / 1000 });
+            } catch {
+                // The callers still get the value, only its reuse is lost
+            }
+            return;
+        }
+
+        const cached: ApiCallDeduplicator.CachedResult = { result, expireAt: Date.now() + ttlMs };
+        this.results.set(key, cached);
+        setTimeout(() => {
+            if (this.results.get(key) === cached) {
+                this.results.delete(key);
+            }
+        }, ttlMs).unref();
+    }
+
+    /**
+     * Creates a timeout for a request, rejecting its callers and aborting its task
+     * @param key The unique identifier for the call
+     * @param call The call to time out
+     * @param timeoutMs Timeout in milliseconds, 0 or undefined for no timeout
+     * @returns A function clearing the timeout
+     */
+    private timeoutRequest(key: string, call: ApiCallDeduplicator.Call, timeoutMs?: number): () => void {
         if (timeoutMs === undefined || timeoutMs <= 0) {
             return () => {};
         }
 
         const timeoutId = setTimeout(() => {
-            const request = this.requests.get(key);
-            if (request) {
-                request.reject(new Error('Call timed out'));
-                this.requests.delete(key);
+            if (this.requests.get(key) === call) {
+                this.counters.timedOut++;
+                this.abortCall(key, call, new DedupTimeoutError(key, timeoutMs));
             }
         }, timeoutMs);
 
@@ -1,3 +1,6 @@
+import { EventEmitter } from 'node:events';
+import { LimiterStore, MemoryLimiterStore } from './limiter-store';
+
 // Types definition
 // ===========================================================
 
@@ -5,39 +8,174 @@ export namespace ApiCallLimiter {
     export type Priority = 'high' | 'normal' | 'low';
     export type Options = {
         requestsPerSecond: number;
+        burst?: number;
+        refillIntervalMs?: number;
+        adaptive?: boolean | AdaptiveOptions;
+        windows?: Array<Window>;
+        maxConcurrent?: number;
+        parent?: ApiCallLimiter;
+        agingMs?: number;
+        maxQueueLength?: Partial<Record<Priority, number>>;
+        store?: LimiterStore.Adapter;
+        releaseTimeoutMs?: number;
+    };
+    export type Window = LimiterStore.Window;
+    export type AdaptiveOptions = {
+        decreaseFactor?: number;
+        increaseStep?: number;
+        increaseIntervalMs?: number;
+        minRequestsPerSecond?: number;
+    };
+    export type Metrics = {
+        queued: Record<Priority, number>;
+        running: number;
+        requestsPerSecond: number;
+        maxRequestsPerSecond: number;
+        pausedUntil: number | null;
+        dispatched: number;
+        timeouts: number;
+        aborts: number;
+        rejections: number;
+        reductions: number;
+        reclaims: number;
+        waitTimeMs: Record<Priority, Histogram>;
+    };
+    export type Histogram = {
+        count: number;
+        sum: number;
+        max: number;
+        buckets: Array<{ upTo: number; count: number }>;
+    };
+    export type RateChangeReason = 'reduce' | 'restore' | 'adaptive';
+    export type Events = {
+        enqueue: [priority: Priority, queued: number];
+        dispatch: [priority: Priority, waitMs: number];
+        timeout: [priority: Priority, waitMs: number];
+        abort: [priority: Priority, waitMs: number];
+        reject: [priority: Priority];
+        release: [durationMs: number];
+        reclaim: [durationMs: number];
+        rateChange: [requestsPerSecond: number, reason: RateChangeReason];
+        pause: [untilMs: number];
+    };
+    export type Outcome = 'success' | 'rate-limited' | 'server-error';
+    export type ReportOptions = {
+        retryAfterMs?: number;
     };
     export type RequestWaiting = {
-        resolve: () => void;
+        weight: number;
+        priority: Priority;
+        queuedAt: number;
+        resolve: (request: RequestRunning) => void;
         reject: (error: Error) => void;
     };
     export type RequestRunning = {
+        weight: number;
         startedAt: number;
         endedAt: number | null; 
     };
     export type RequestOptions = {
         priority?: Priority;
+        weight?: number;
         timeoutMs?: number;
+        signal?: AbortSignal;
     };
 }
 
+// Errors definition
+// ===========================================================
+
+/**
+ * Error thrown when a request is rejected because the queue of its priority is full
+ */
+export class LimiterQueueFullError extends Error {
+    /** Priority of the rejected request */
+    public readonly priority: ApiCallLimiter.Priority;
+
+    /**
+     * @param priority Priority of the rejected request
+     * @param maxQueueLength Maximum length of the queue of this priority
+     */
+    constructor(priority: ApiCallLimiter.Priority, maxQueueLength: number) {
+        super(`${priority} priority queue is full (${maxQueueLength} requests waiting)`);
+        this.name = 'LimiterQueueFullError';
+        this.priority = priority;
+    }
+}
+
+// Functions definition
+// ===========================================================
+
+/**
+ * Parses the value of a Retry-After HTTP header
+ * @param value The header value, either a number of seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | number | null | undefined): number | undefined {
+    if (value === null || value === undefined || value === '') {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1_000);
+    }
+    const date = Date.parse(String(value));
+    if (Number.isFinite(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+// Constants definition
+// ===========================================================
+
+/** Upper bounds in milliseconds of the wait time histogram buckets */
+const WAIT_TIME_BUCKETS = [10, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000, 30_000, Infinity];
+
 // Class definition
 // ===========================================================
 
 /**
  * CallLimiter class that controls the flow of asynchronous requests
  * to prevent exceeding specified rate limits. This class implements a token bucket
- * algorithm with a fixed rate and burst capacity equal to the rate limit.
+ * algorithm: the bucket holds up to `burst` tokens, refilled at `requestsPerSecond`,
+ * and each request consumes as many tokens as its weight. Additional sliding windows
+ * (e.g. 600 per minute) and a concurrency cap can be combined: a slot is granted only
+ * when every limit has room. When no slot is available, the limiter sleeps exactly until
+ * the next one frees up, and stays idle when no request is waiting.
+ *
+ * The state of the limits lives in a store (in memory by default): limiters of several
+ * processes using the same FileLimiterStore share the same limits, while each process
+ * keeps its own queues and priorities.
+ *
+ * Emits typed events for each step of a request (`enqueue`, `dispatch`, `timeout`, `abort`,
+ * `reject`, `release`, `reclaim`) and for the rate control (`rateChange`, `pause`), see also `metrics()`.
  */
-export class ApiCallLimiter {
+export class ApiCallLimiter extends EventEmitter<ApiCallLimiter.Events> {
     /**
      * Properties related to the rate limit configuration
      */
     private readonly maxRequestsPerSecond: number;
     private readonly reductionNumber: number; 
+    private readonly burst: number;
+    private readonly refillIntervalMs: number;
     private requestsPerSecond: number;
     private reduceLimitTimeout: NodeJS.Timeout | null = null;
     private reduceLimitTimestamp: number = 0;
 
+    /**
+     * Adaptive (AIMD) rate control properties, null if the adaptive mode is disabled
+     */
+    private readonly adaptive: Required<ApiCallLimiter.AdaptiveOptions> | null;
+    private increaseTimestamp: number = 0;
+    private decreaseTimestamp: number = 0;
+    private pausedUntil: number = 0;
+
+    /**
+     * Store holding the state of the limits (token bucket, windows, concurrency slots)
+     */
+    private readonly store: LimiterStore.Adapter;
+
     /**
      * Queue management properties
      */
@@ -45,21 +183,104 @@ export class ApiCallLimiter {
     private requestsNormal: Array<ApiCallLimiter.RequestWaiting> = [];
     private requestsLow: Array<ApiCallLimiter.RequestWaiting> = [];
     private requestsRunning: Set<ApiCallLimiter.RequestRunning> = new Set();
-    private isProcessing = false;
+    private processTimeout: NodeJS.Timeout | null = null;
+    private processing: boolean = false;
+    private processAgain: boolean = false;
+    private releaseListening: boolean = false;
+    private readonly agingMs: number;
+    private readonly maxQueueLength: Record<ApiCallLimiter.Priority, number>;
+    private readonly releaseTimeoutMs: number;
+
+    /**
+     * Additional limits: sliding windows and maximum number of requests in flight
+     */
+    private readonly windows: Array<ApiCallLimiter.Window>;
+    private readonly maxConcurrent: number;
+
+    /**
+     * Limiter shared with other limiters, from which every request also needs a slot
+     */
+    private readonly parent: ApiCallLimiter | null;
+
+    /**
+     * Counters and histograms reported by metrics()
+     */
+    private counters = { dispatched: 0, timeouts: 0, aborts: 0, rejections: 0, reductions: 0, reclaims: 0 };
+    private waitTimes: Record<ApiCallLimiter.Priority, ApiCallLimiter.Histogram> = {
+        high: this.createHistogram(),
+        normal: this.createHistogram(),
+        low: this.createHistogram(),
+    };
 
     /**
      * Creates a rate limiter that limits to specified requests per second
-     * @param requestsPerSecond Maximum number of requests allowed per second (example: 50 calls per second)
-     * @throws Error if requestsPerSecond is not positive
+     * @param options Configuration options
+     * @param options.requestsPerSecond Maximum number of requests allowed per second (example: 50 calls per second)
+     * @param options.burst Maximum number of requests allowed at once, i.e. the bucket capacity (default: requestsPerSecond)
+     * @param options.refillIntervalMs Interval in milliseconds between two refills of the bucket (default: 1000 / requestsPerSecond, one token at a time)
+     * @param options.adaptive Enables the adaptive rate control driven by `report`, true for the defaults (default: false)
+     * @param options.adaptive.decreaseFactor Factor applied to the rate when rate-limited or on server errors (default: 0.5)
+     * @param options.adaptive.increaseStep Requests per second added back after each interval of successes (default: 10% of requestsPerSecond)
+     * @param options.adaptive.increaseIntervalMs Minimum interval in milliseconds between two rate adjustments (default: 1000)
+     * @param options.adaptive.minRequestsPerSecond Rate under which the limiter never goes (default: 1, or requestsPerSecond if lower)
+     * @param options.windows Additional sliding windows, each allowing at most `limit` weight units per `intervalMs` (default: none)
+     * @param options.maxConcurrent Maximum number of requests in flight, until their slot is released (default: Infinity)
+     * @param options.parent Limiter shared with other limiters (e.g. a global cap), every request also waits for a slot there (default: none)
+     * @param options.agingMs Waiting time in milliseconds after which a request is promoted one priority up, to avoid starvation (default: Infinity, strict priorities)
+     * @param options.maxQueueLength Maximum number of waiting requests per priority, further requests are rejected with LimiterQueueFullError (default: Infinity)
+     * @param options.store Store holding the state of the limits, e.g. a FileLimiterStore to share them between processes (default: a new MemoryLimiterStore)
+     * @param options.releaseTimeoutMs Time in milliseconds after which a slot that was never released is reclaimed, Infinity to disable (default: 65_000)
+     * @throws Error if requestsPerSecond, burst or refillIntervalMs is not positive, or the adaptive, windows, maxConcurrent or releaseTimeoutMs options are invalid
      */
     constructor(options: ApiCallLimiter.Options) {
-        if (options.requestsPerSecond <= 0) {
+        super();
+
+        if (!(options.requestsPerSecond > 0)) {
             throw new Error('requestsPerSecond must be > 0');
         }
+        if (options.burst !== undefined && !(options.burst >= 1)) {
+            throw new Error('burst must be >= 1');
+        }
+        if (options.refillIntervalMs !== undefined && !(options.refillIntervalMs > 0)) {
+            throw new Error('refillIntervalMs must be > 0');
+        }
+        if (options.maxConcurrent !== undefined && !(options.maxConcurrent >= 1)) {
+            throw new Error('maxConcurrent must be >= 1');
+        }
+        if (options.agingMs !== undefined && !(options.agingMs > 0)) {
+            throw new Error('agingMs must be > 0');
+        }
+        if (options.releaseTimeoutMs !== undefined && !(options.releaseTimeoutMs > 0)) {
+            throw new Error('releaseTimeoutMs must be > 0');
+        }
+        for (const length of Object.values(options.maxQueueLength ?? {})) {
+            if (!(length >= 0)) {
+                throw new Error('maxQueueLength must be >= 0');
+            }
+        }
+        for (const window of options.windows ?? []) {
+            if (!(window.limit > 0) || !(window.intervalMs > 0)) {
+                throw new Error('windows limit and intervalMs must be > 0');
+            }
+        }
 
         // Constants
         this.maxRequestsPerSecond = options.requestsPerSecond;
         this.reductionNumber = Math.max(1, Math.floor(options.requestsPerSecond / 10));
+        this.adaptive = this.resolveAdaptive(options);
+        this.burst = options.burst ?? Math.max(1, options.requestsPerSecond);
+        this.refillIntervalMs = options.refillIntervalMs ?? 1_000 / options.requestsPerSecond;
+        this.maxConcurrent = options.maxConcurrent ?? Infinity;
+        this.parent = options.parent ?? null;
+        this.agingMs = options.agingMs ?? Infinity;
+        this.maxQueueLength = {
+            high: options.maxQueueLength?.high ?? Infinity,
+            normal: options.maxQueueLength?.normal ?? Infinity,
+            low: options.maxQueueLength?.low ?? Infinity,
+        };
+        this.windows = (options.windows ?? []).map(({ limit, intervalMs }) => ({ limit, intervalMs }));
+        this.store = options.store ?? new MemoryLimiterStore();
+        this.releaseTimeoutMs = options.releaseTimeoutMs ?? 65_000; // 1 minute (+5 seconds for the timeout)
 
         // States
         this.requestsPerSecond = options.requestsPerSecond;
@@ -90,143 +311,497 @@ export class ApiCallLimiter {
 
         // Set the timeout to restore the original rate limit after the specified duration
         this.reduceLimitTimeout = setTimeout(() => {
-            this.requestsPerSecond = this.maxRequestsPerSecond;
+            this.setRate(this.maxRequestsPerSecond, 'restore');
             this.reduceLimitTimeout = null;
         }, durationMs);
 
         // Reduce the rate limit
         const newRequestsPerSecond = this.requestsPerSecond - this.reductionNumber;
-        this.requestsPerSecond = Math.max(1, newRequestsPerSecond);
+        this.counters.reductions++;
+        this.setRate(Math.max(1, newRequestsPerSecond), 'reduce');
+    }
+
+    /**
+     * Reports the outcome of an API call to the adaptive rate control (AIMD)
+     * - 'success': the rate is increased by `increaseStep`, at most once per `increaseIntervalMs`, up to requestsPerSecond
+     * - 'rate-limited': the rate is multiplied by `decreaseFactor`, and dispatch is paused until Retry-After passes
+     * - 'server-error': the rate is multiplied by `decreaseFactor`
+     * Decreases are applied at most once per `increaseIntervalMs`, so a burst of failures only counts once,
+     * but never wait for a previous increase: a failure right after an increase always takes effect.
+     * The burst follows the rate in proportion, so a decreased rate never lets a full burst go out at once.
+     * @param outcome The outcome of the API call
+     * @param options Options for the report
+     * @param options.retryAfterMs Delay in milliseconds before any new request is allowed (see `parseRetryAfter`)
+     * @throws Error if the adaptive mode is not enabled
+     */
+    public report(outcome: ApiCallLimiter.Outcome, options: ApiCallLimiter.ReportOptions = {}): void {
+        if (!this.adaptive) {
+            throw new Error('adaptive mode is not enabled');
+        }
+
+        const { decreaseFactor, increaseStep, increaseIntervalMs, minRequestsPerSecond } = this.adaptive;
+        const now = Date.now();
+
+        if (outcome === 'success') {
+            // An increase also waits for the interval after the last decrease, to let the rate settle
+            const lastAdjustment = Math.max(this.increaseTimestamp, this.decreaseTimestamp);
+            if (now - lastAdjustment >= increaseIntervalMs && this.requestsPerSecond < this.maxRequestsPerSecond) {
+                this.increaseTimestamp = now;
+                this.setRate(Math.min(this.maxRequestsPerSecond, this.requestsPerSecond + increaseStep), 'adaptive');
+            }
+            return;
+        }
+
+        // Pause all dispatch until Retry-After passes, with an empty bucket so it restarts slowly
+        if (outcome === 'rate-limited' && options.retryAfterMs !== undefined && options.retryAfterMs > 0) {
+            this.pause(now + options.retryAfterMs);
+        }
+
+        if (now - this.decreaseTimestamp >= increaseIntervalMs) {
+            this.decreaseTimestamp = now;
+            this.setRate(Math.max(minRequestsPerSecond, this.requestsPerSecond * decreaseFactor), 'adaptive');
+        }
+    }
+
+    /**
+     * Returns a snapshot of the limiter state and counters
+     * Wait times are measured from the request entering the queue until it gets a slot (or times out / is aborted),
+     * reductions count the calls to `reduceLimitTemporary` that actually reduced the rate, and reclaims
+     * the slots released by the limiter because they were still held after `releaseTimeoutMs`.
+     * @returns The limiter metrics
+     */
+    public metrics(): ApiCallLimiter.Metrics {
+        const cloneHistogram = (histogram: ApiCallLimiter.Histogram): ApiCallLimiter.Histogram => ({
+            ...histogram,
+            buckets: histogram.buckets.map((bucket) => ({ ...bucket })),
+        });
+
+        return {
+            queued: {
+                high: this.requestsHigh.length,
+                normal: this.requestsNormal.length,
+                low: this.requestsLow.length,
+            },
+            running: this.requestsRunning.size,
+            requestsPerSecond: this.requestsPerSecond,
+            maxRequestsPerSecond: this.maxRequestsPerSecond,
+            pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+            ...this.counters,
+            waitTimeMs: {
+                high: cloneHistogram(this.waitTimes.high),
+                normal: cloneHistogram(this.waitTimes.normal),
+                low: cloneHistogram(this.waitTimes.low),
+            },
+        };
     }
 
     /**
      * Requests a slot for executing an API call within rate limits
+     * Prefer `schedule`, which always releases the slot. A slot still held after `releaseTimeoutMs`
+     * is considered stuck and reclaimed, so a missing release can't exhaust `maxConcurrent`.
      * @param options Options for the request
-     * @param options.timeoutMs Timeout in milliseconds for the request to be completed (default: 60_000)
+     * @param options.timeoutMs Timeout in milliseconds for the request to get a slot (default: 60_000)
      * @param options.priority Priority of the request, 'high', 'normal', or 'low' (default: 'normal')
+     * @param options.weight Number of units the request costs against the rate limits (default: 1)
+     * @param options.signal Signal to abort the request while it is waiting (it is removed from the queue)
      * @returns Promise that resolves with a function to call when the request is complete
-     * @throws Error if the request times out or if the rate limiter is in an invalid state
+     * @throws LimiterQueueFullError if the queue of the priority is full
+     * @throws Error if the weight can never fit the limits, if the request times out, or the signal's reason if it is aborted
      */
-    public async requestSlot(options: ApiCallLimiter.RequestOptions): Promise<() => void> {
+    public async requestSlot(options: ApiCallLimiter.RequestOptions = {}): Promise<() => void> {
         const priority = options.priority || 'normal';
         const timeout = options.timeoutMs ? Math.max(0, options.timeoutMs) : 60_000;
+        const weight = options.weight ?? 1;
+        const { signal } = options;
 
-        let timeoutHandle: NodeJS.Timeout | null = null;
+        if (!(weight > 0) || weight > this.burst || this.windows.some((window) => weight > window.limit)) {
+            throw new Error(`weight must be > 0 and fit the burst and every window limit`);
+        }
+        signal?.throwIfAborted();
+        if (this.getQueue(priority).length >= this.maxQueueLength[priority]) {
+            this.counters.rejections++;
+            this.emit('reject', priority);
+            throw new LimiterQueueFullError(priority, this.maxQueueLength[priority]);
+        }
+        const queuedAt = Date.now();
 
         // Add the request to the queue and wait for it to be processed
-        await new Promise<void>((resolve, reject) => {
-            if (priority === 'high') {
-                this.requestsHigh.push({ resolve, reject });
-            } else if (priority === 'normal') {
-                this.requestsNormal.push({ resolve, reject });
-            } else {
-                this.requestsLow.push({ resolve, reject });
-            }
-            this.processQueue();
+        const request = await new Promise<ApiCallLimiter.RequestRunning>((resolve, reject) => {
+            const queue = this.getQueue(priority);
+
+            const onAbort = () => {
+                if (cancel(signal?.reason)) {
+                    const waitMs = this.recordWait(priority, queuedAt);
+                    this.counters.aborts++;
+                    this.emit('abort', priority, waitMs);
+                }
+            };
+            const cleanup = () => {
+                clearTimeout(timeoutHandle);
+                signal?.removeEventListener('abort', onAbort);
+            };
+
+            const request: ApiCallLimiter.RequestWaiting = {
+                weight,
+                priority,
+                queuedAt,
+                resolve: (running) => { cleanup(); resolve(running); },
+                reject: (error) => { cleanup(); reject(error); },
+            };
+
+            // Remove the request from the queue, so it never takes a slot
+            const cancel = (error: Error): boolean => {
+                const index = queue.indexOf(request);
+                if (index === -1) {
+                    return false;
+                }
+                queue.splice(index, 1);
+                request.reject(error);
+                return true;
+            };
 
             // Set the timeout to reject the promise if the request takes too long
-            timeoutHandle = setTimeout(() => {
-                reject(new Error(`request timeout`));
+            const timeoutHandle = setTimeout(() => {
+                if (cancel(new Error(`request timeout`))) {
+                    const waitMs = this.recordWait(priority, queuedAt);
+                    this.counters.timeouts++;
+                    this.emit('timeout', priority, waitMs);
+                }
             }, timeout);
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            queue.push(request);
+            this.emit('enqueue', priority, queue.length);
+            this.processQueue();
         });
 
-        // Clear the timeout if it exists
-        if (timeoutHandle) {
-            clearTimeout(timeoutHandle);
+        let reclaimTimeout: NodeJS.Timeout | undefined;
+        const finish = (reclaimed: boolean) => {
+            // Mark the request as completed (only once), freeing its concurrency slot
+            if (request.endedAt === null) {
+                clearTimeout(reclaimTimeout);
+                request.endedAt = Date.now();
+                this.requestsRunning.delete(request);
+                if (reclaimed) {
+                    this.counters.reclaims++;
+                    this.emit('reclaim', request.endedAt - request.startedAt);
+                } else {
+                    this.emit('release', request.endedAt - request.startedAt);
+                }
+                this.releaseSlot();
+            }
+        };
+        const release = () => finish(false);
+
+        // Reclaim the slot if it is never released (e.g. a forgotten release or a hung call)
+        if (this.releaseTimeoutMs !== Infinity) {
+            reclaimTimeout = setTimeout(() => finish(true), this.releaseTimeoutMs).unref();
         }
 
-        // Add the request to the running requests array
-        const request: ApiCallLimiter.RequestRunning = { startedAt: Date.now(), endedAt: null };
-        this.requestsRunning.add(request);
+        // Also wait for a slot in the parent limiter, with the time left
+        if (this.parent) {
+            try {
+                const timeoutMs = Math.max(1, timeout - (Date.now() - queuedAt));
+                const releaseParent = await this.parent.requestSlot({ priority, weight, timeoutMs, signal });
+                return () => {
+                    release();
+                    releaseParent();
+                };
+            } catch (error) {
+                release();
+                throw error;
+            }
+        }
 
-        return () => {
-            // Mark the request as completed
-            request.endedAt = Date.now();
-        };
+        return release;
+    }
+
+    /**
+     * Runs a function within rate limits: waits for a slot, runs the function and always releases the slot
+     * @param fn The function to run (can be sync or async)
+     * @param options Options for the request, see `requestSlot`
+     * @returns The result of the function
+     * @throws Error if the request times out or is aborted before getting a slot, or the error thrown by the function
+     */
+    public async schedule<T>(fn: () => T | Promise<T>, options: ApiCallLimiter.RequestOptions = {}): Promise<T> {
+        const release = await this.requestSlot(options);
+        try {
+            return await fn();
+        } finally {
+            release();
+        }
     }
       
     // Private methods
     
     /**
-     * Processes the queue of pending requests according to available rate limit slots
-     * Runs as a loop until the queue is empty or no slots are available
-     * @throws Error if queue processing fails
+     * Processes the queue of pending requests according to the slots available
+     * Dispatches as many requests as possible, then sleeps until the next slot frees up
+     * if requests are still waiting (no timer is left when the queues are empty, and
+     * none is needed when only the concurrency cap is reached: releases wake the queue up).
+     * Only one run talks to the store at a time, a call during a run triggers another run.
      */
-    private async processQueue(): Promise<void> {
-        // Prevent processing if the queue is empty
-        if ((this.requestsHigh.length + this.requestsNormal.length + this.requestsLow.length) === 0) {
-            return; 
+    private processQueue(): void {
+        // Any scheduled run is superseded by this one
+        if (this.processTimeout) {
+            clearTimeout(this.processTimeout);
+            this.processTimeout = null;
         }
-
-        // Prevent multiple concurrent processing
-        if (this.isProcessing) {
-            return; 
+        if (this.processing) {
+            this.processAgain = true;
+            return;
         }
 
-        try {
-            // Set the processing flag
-            this.isProcessing = true;
+        this.processing = true;
+        this.drainQueue().finally(() => {
+            this.processing = false;
+            if (this.processAgain) {
+                this.processAgain = false;
+                this.processQueue();
+            }
+        });
+    }
 
-            // Process as many requests as possible in the queue
-            while (this.requestsHigh.length > 0 || this.requestsNormal.length > 0 || this.requestsLow.length > 0) {
+    /**
+     * Dispatches the waiting requests while the store grants them a slot
+     * If the store fails, the request at the head of the queue is rejected with the error.
+     */
+    private async drainQueue(): Promise<void> {
+        while (true) {
+            // Process requests in priority order (high, then normal, then low), with aging
+            const now = Date.now();
+            const queue = this.nextQueue(now);
+            const next = queue?.[0];
 
-                // Check how many slots are currently available
-                const availableSlots = this.getAvailableSlots();
+            // No more requests to process
+            if (!queue || !next) { break; }
 
-                if (availableSlots === 0) {
-                    // No available slots, wait for 50ms before checking again
-                    await new Promise(resolve => setTimeout(resolve, 50));
+            // Wait until every limit has room for the request
+            let waitMs: number;
+            if (now < this.pausedUntil) {
+                waitMs = this.pausedUntil - now;
+            } else if (this.requestsRunning.size >= this.maxConcurrent) {
+                waitMs = Infinity;
+            } else {
+                try {
+                    // Slots held by other limiters sharing the store are only freed by their releases
+                    if (this.maxConcurrent !== Infinity) {
+                        this.listenRelease();
+                    }
+                    waitMs = await this.store.acquire(next.weight, this.limits(next.weight), now);
+                } catch (error) {
+                    if (queue[0] === next) {
+                        queue.shift();
+                        next.reject(error instanceof Error ? error : new Error(String(error)));
+                    }
                     continue;
                 }
-
-                // Get the next request from the queue
-                for (let i = 0; i < availableSlots; i++) {
-                    // Process requests in priority order: high, then normal, then low
-                    const request = this.requestsHigh.shift() || this.requestsNormal.shift() || this.requestsLow.shift();
-
-                    // No more requests to process
-                    if (!request) { break; }
-
-                    // Start processing the request
-                    request.resolve();
+            }
+            if (waitMs > 0) {
+                if (waitMs !== Infinity) {
+                    // Unref'd: the waiting requests have their own timeout, and the next slot can be
+                    // far away (e.g. a daily window) once they left
+                    this.processTimeout = setTimeout(() => {
+                        this.processTimeout = null;
+                        this.processQueue();
+                    }, waitMs).unref();
                 }
+                break;
+            }
+
+            // The request left the queue while the store was granting the slot: the concurrency
+            // slot is given back, the consumed tokens are lost (which is on the safe side)
+            if (queue[0] !== next) {
+                this.releaseSlot();
+                continue;
             }
 
-        } finally { 
-            // Reset processing flag
-            this.isProcessing = false;
-            
-            // Try to process the queue again (ignored if already processing)
-            setImmediate(() => this.processQueue());
+            // Start processing the request
+            queue.shift();
+            const startedAt = Date.now();
+            const request: ApiCallLimiter.RequestRunning = { weight: next.weight, startedAt, endedAt: null };
+            this.requestsRunning.add(request);
+            this.counters.dispatched++;
+            this.emit('dispatch', next.priority, this.recordWait(next.priority, next.queuedAt, startedAt));
+            next.resolve(request);
         }
     }
 
     /**
-     * Calculates the number of available rate limit slots
-     * Also performs cleanup of completed and stuck calls
-     * @returns The number of available slots for new requests
+     * Selects the queue holding the next request to process
+     * Without aging, this is the first non-empty queue in priority order. With aging, each
+     * `agingMs` of waiting promotes a request one priority up, and between requests of the
+     * same (promoted) priority the oldest one goes first. Only the head of each queue needs
+     * to be compared, as it is the oldest request of its queue.
+     * @param now The current timestamp in milliseconds
+     * @returns The queue of the next request, or undefined if all queues are empty
      */
-    private getAvailableSlots(): number {
-        const now = Date.now();
-        const oneSecondAgo = now - 1_000;
-        const oneMinuteAgo = now - 65_000;  // 1 minute (+5 seconds for the timeout)
+    private nextQueue(now: number): Array<ApiCallLimiter.RequestWaiting> | undefined {
+        let selected: Array<ApiCallLimiter.RequestWaiting> | undefined;
+        let selectedRank = Infinity;
 
-        // Clean up the running requests
-        for (const request of this.requestsRunning) {
-            // Remove completed calls (older than 1 second)
-            if (request.endedAt && request.endedAt < oneSecondAgo) {
-                this.requestsRunning.delete(request);
-                continue;
+        [this.requestsHigh, this.requestsNormal, this.requestsLow].forEach((queue, rank) => {
+            const head = queue[0];
+            if (!head) {
+                return;
             }
-            // Remove potentially stuck calls (running for more than 1 minute)
-            if (request.startedAt && request.startedAt < oneMinuteAgo) {
-                this.requestsRunning.delete(request);
-                continue;
+            const promoted = this.agingMs === Infinity ? 0 : Math.floor((now - head.queuedAt) / this.agingMs);
+            const effectiveRank = Math.max(0, rank - promoted);
+            if (effectiveRank < selectedRank || (effectiveRank === selectedRank && head.queuedAt < selected![0]!.queuedAt)) {
+                selected = queue;
+                selectedRank = effectiveRank;
             }
+        });
+
+        return selected;
+    }
+
+    /**
+     * Resolves the adaptive rate control options
+     * @param options The limiter options
+     * @returns The adaptive options with their defaults, or null if the adaptive mode is disabled
+     */
+    private resolveAdaptive(options: ApiCallLimiter.Options): Required<ApiCallLimiter.AdaptiveOptions> | null {
+        if (!options.adaptive) {
+            return null;
+        }
+
+        const adaptive = options.adaptive === true ? {} : options.adaptive;
+        const {
+            decreaseFactor = 0.5,
+            increaseStep = Math.max(1, options.requestsPerSecond / 10),
+            increaseIntervalMs = 1_000,
+            minRequestsPerSecond = Math.min(1, options.requestsPerSecond),
+        } = adaptive;
+
+        if (!(decreaseFactor > 0 && decreaseFactor < 1)) {
+            throw new Error('adaptive.decreaseFactor must be between 0 and 1');
+        }
+        if (!(increaseStep > 0)) {
+            throw new Error('adaptive.increaseStep must be > 0');
+        }
+        if (!(increaseIntervalMs >= 0)) {
+            throw new Error('adaptive.increaseIntervalMs must be >= 0');
+        }
+        if (!(minRequestsPerSecond > 0 && minRequestsPerSecond <= options.requestsPerSecond)) {
+            throw new Error('adaptive.minRequestsPerSecond must be > 0 and <= requestsPerSecond');
+        }
+
+        return { decreaseFactor, increaseStep, increaseIntervalMs, minRequestsPerSecond };
+    }
+
+    /**
+     * Pauses all dispatch until the given time, and empties the bucket
+     * so that requests resume at the refill rate instead of in a burst
+     * @param until Timestamp in milliseconds of the end of the pause
+     */
+    private pause(until: number): void {
+        if (until <= this.pausedUntil) {
+            return;
+        }
+        this.pausedUntil = until;
+        this.emit('pause', until);
+        this.store.pause(until).catch(() => undefined).finally(() => this.processQueue());
+    }
+
+    /**
+     * Creates an empty wait time histogram
+     * @returns The histogram
+     */
+    private createHistogram(): ApiCallLimiter.Histogram {
+        return { count: 0, sum: 0, max: 0, buckets: WAIT_TIME_BUCKETS.map((upTo) => ({ upTo, count: 0 })) };
+    }
+
+    /**
+     * Records the wait time of a request in the histogram of its priority
+     * @param priority The priority of the request
+     * @param queuedAt Timestamp in milliseconds when the request entered the queue
+     * @param now The current timestamp in milliseconds
+     * @returns The wait time in milliseconds
+     */
+    private recordWait(priority: ApiCallLimiter.Priority, queuedAt: number, now: number = Date.now()): number {
+        const waitMs = Math.max(0, now - queuedAt);
+        const histogram = this.waitTimes[priority];
+
+        histogram.count++;
+        histogram.sum += waitMs;
+        histogram.max = Math.max(histogram.max, waitMs);
+        histogram.buckets.find((bucket) => waitMs <= bucket.upTo)!.count++;
+
+        return waitMs;
+    }
+
+    /**
+     * Returns the queue of a priority
+     * @param priority The priority of the request
+     * @returns The queue holding the waiting requests of this priority
+     */
+    private getQueue(priority: ApiCallLimiter.Priority): Array<ApiCallLimiter.RequestWaiting> {
+        if (priority === 'high') {
+            return this.requestsHigh;
+        } else if (priority === 'normal') {
+            return this.requestsNormal;
+        } else {
+            return this.requestsLow;
+        }
+    }
+
+    /**
+     * Returns the limits passed to the store, at the current rate
+     * The burst shrinks with the rate (e.g. after an adaptive decrease), so that a lower rate
+     * doesn't still let a full burst go out at once, but it always fits the request.
+     * @param weight The weight of the request asking for a slot
+     * @returns The limits of the limiter
+     */
+    private limits(weight: number): LimiterStore.Limits {
+        const burst = this.burst * this.requestsPerSecond / this.maxRequestsPerSecond;
+        return {
+            requestsPerSecond: this.requestsPerSecond,
+            burst: Math.max(1, weight, burst),
+            refillIntervalMs: this.refillIntervalMs,
+            windows: this.windows,
+            maxConcurrent: this.maxConcurrent,
+        };
+    }
+
+    /**
+     * Frees a concurrency slot in the store, then wakes the queue up
+     * Store failures are ignored: the slot of a dead process is freed by shared stores anyway.
+     */
+    private releaseSlot(): void {
+        if (this.maxConcurrent === Infinity) {
+            this.processQueue();
+            return;
+        }
+        this.store.release().catch(() => undefined).finally(() => this.processQueue());
+    }
+
+    /**
+     * Wakes the queue up on the next release of a slot by any limiter using the store, if the store supports it
+     * At most one listener is pending at a time, and it is registered before asking the store for a slot,
+     * so a release happening meanwhile is never missed.
+     */
+    private listenRelease(): void {
+        if (this.releaseListening || !this.store.onRelease) {
+            return;
+        }
+        this.releaseListening = true;
+        this.store.onRelease(() => {
+            this.releaseListening = false;
+            this.processQueue();
+        });
+    }
+
+    /**
+     * Changes the current rate limit, and reschedules the waiting requests accordingly
+     * @param requestsPerSecond The new rate limit
+     * @param reason Why the rate limit changes
+     */
+    private setRate(requestsPerSecond: number, reason: ApiCallLimiter.RateChangeReason): void {
+        if (requestsPerSecond !== this.requestsPerSecond) {
+            this.requestsPerSecond = requestsPerSecond;
+            this.emit('rateChange', requestsPerSecond, reason);
         }
-        
-        // Calculate available slots based on current rate limit and active calls
-        const available = this.requestsPerSecond - this.requestsRunning.size;
-        return Math.max(0, available); // Ensure we never return a negative number
+        this.processQueue();
     }
 }
@@ -0,0 +1,190 @@
+import { ApiCallLimiter } from './call-limiter';
+import { LimiterStore } from './limiter-store';
+
+// Types definition
+// ===========================================================
+
+export namespace KeyedApiCallLimiter {
+    export type Options = {
+        template: Omit<ApiCallLimiter.Options, 'parent' | 'store'>;
+        global?: Omit<ApiCallLimiter.Options, 'parent'>;
+        createStore?: (key: string) => LimiterStore.Adapter;
+        idleTimeoutMs?: number;
+    };
+    export type Bucket = {
+        limiter: ApiCallLimiter;
+        lastUsedAt: number;
+    };
+    export type KeyMetrics = ApiCallLimiter.Metrics & {
+        key: string;
+        lastUsedAt: number;
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * KeyedCallLimiter class that manages one ApiCallLimiter per key (e.g. per upstream host or per API key)
+ * Limiters are created on first use from a template, dropped once idle, and can share a global cap:
+ * every request then needs a slot both in its own limiter and in the global one.
+ */
+export class KeyedApiCallLimiter {
+    /** Limiters indexed by key */
+    private readonly buckets = new Map<string, KeyedApiCallLimiter.Bucket>();
+
+    /** Template used to create the limiter of each key */
+    private readonly template: Omit<ApiCallLimiter.Options, 'parent' | 'store'>;
+
+    /** Creates the store of each key, null for a new MemoryLimiterStore per key */
+    private readonly createStore: ((key: string) => LimiterStore.Adapter) | null;
+
+    /** Limiter shared by all keys, null if there is no global cap */
+    private readonly globalLimiter: ApiCallLimiter | null;
+
+    /** Time in milliseconds after which an unused limiter is dropped */
+    private readonly idleTimeoutMs: number;
+
+    /** Time in milliseconds after which an unused limiter has its full capacity back (every window and the bucket) */
+    private readonly replenishMs: number;
+
+    /** Timer of the periodic idle sweep, null once disposed */
+    private sweepInterval: NodeJS.Timeout | null = null;
+
+    /**
+     * Creates a keyed limiter
+     * @param options Configuration options
+     * @param options.template Options of the limiter created for each key, see ApiCallLimiter (a store would be shared by every key, see createStore)
+     * @param options.global Options of a limiter shared by all keys, to cap the total rate (default: none)
+     * @param options.createStore Creates the store of a key's limiter, e.g. a FileLimiterStore per key (default: a new MemoryLimiterStore per key)
+     * @param options.idleTimeoutMs Time in milliseconds after which a limiter with no waiting nor running request is dropped,
+     * never before its longest window and its bucket are replenished, so dropping a key never resets its budget (default: 60_000)
+     * @throws Error if the options are invalid, or the template has a store
+     */
+    constructor(options: KeyedApiCallLimiter.Options) {
+        const { template, global, createStore, idleTimeoutMs = 60_000 } = options;
+
+        if (!(idleTimeoutMs > 0)) {
+            throw new Error('idleTimeoutMs must be > 0');
+        }
+        if ('store' in template) {
+            throw new Error('template.store would be shared by every key, use createStore instead');
+        }
+
+        // Validates the template once, instead of on first use
+        new ApiCallLimiter(template);
+
+        this.template = template;
+        this.createStore = createStore ?? null;
+        this.globalLimiter = global ? new ApiCallLimiter(global) : null;
+        this.idleTimeoutMs = idleTimeoutMs;
+        this.replenishMs = Math.max(
+            (template.burst ?? Math.max(1, template.requestsPerSecond)) / template.requestsPerSecond * 1_000,
+            ...(template.windows ?? []).map((window) => window.intervalMs),
+        );
+
+        // The sweep never keeps the process alive on its own
+        this.sweepInterval = setInterval(() => this.sweep(), idleTimeoutMs).unref();
+    }
+
+    // Public methods
+
+    /**
+     * Returns the limiter of a key, creating it from the template if needed
+     * @param key The key of the limiter (e.g. a host or an API key)
+     * @returns The limiter of the key
+     */
+    public for(key: string): ApiCallLimiter {
+        if (!key || typeof key !== 'string') {
+            throw new Error('Invalid key provided to for method');
+        }
+
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            const limiter = new ApiCallLimiter({
+                ...this.template,
+                store: this.createStore?.(key),
+                parent: this.globalLimiter ?? undefined,
+            });
+            const created: KeyedApiCallLimiter.Bucket = { limiter, lastUsedAt: 0 };
+            // The windows count from the dispatch, which can come long after the call to `for`
+            limiter.on('dispatch', () => {
+                created.lastUsedAt = Date.now();
+            });
+            bucket = created;
+            this.buckets.set(key, bucket);
+        }
+        bucket.lastUsedAt = Date.now();
+
+        return bucket.limiter;
+    }
+
+    /**
+     * Returns the keys that currently have a limiter
+     * @returns The list of keys
+     */
+    public keys(): string[] {
+        return [...this.buckets.keys()];
+    }
+
+    /**
+     * Returns the metrics of a key's limiter, see ApiCallLimiter.metrics
+     * @param key The key of the limiter
+     * @returns The metrics of the limiter, or null if the key has no limiter
+     */
+    public metrics(key: string): KeyedApiCallLimiter.KeyMetrics | null {
+        const bucket = this.buckets.get(key);
+        if (!bucket) {
+            return null;
+        }
+        return { key, lastUsedAt: bucket.lastUsedAt, ...bucket.limiter.metrics() };
+    }
+
+    /**
+     * Returns the metrics of the global limiter, see ApiCallLimiter.metrics
+     * @returns The metrics of the global limiter, or null if there is no global cap
+     */
+    public globalMetrics(): ApiCallLimiter.Metrics | null {
+        return this.globalLimiter?.metrics() ?? null;
+    }
+
+    /**
+     * Drops the limiter of a key, whatever its state
+     * Requests already waiting on it are still processed by the dropped limiter.
+     * @param key The key of the limiter
+     * @returns True if the key had a limiter
+     */
+    public delete(key: string): boolean {
+        return this.buckets.delete(key);
+    }
+
+    /**
+     * Stops the idle sweep and drops every limiter
+     */
+    public dispose(): void {
+        if (this.sweepInterval) {
+            clearInterval(this.sweepInterval);
+            this.sweepInterval = null;
+        }
+        this.buckets.clear();
+    }
+
+    // Private methods
+
+    /**
+     * Drops the limiters unused for longer than the idle timeout (and their replenish time), with no waiting nor running request
+     */
+    private sweep(): void {
+        const idleSince = Date.now() - Math.max(this.idleTimeoutMs, this.replenishMs);
+
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.lastUsedAt > idleSince) {
+                continue;
+            }
+            const { queued, running } = bucket.limiter.metrics();
+            if (running === 0 && queued.high + queued.normal + queued.low === 0) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
@@ -0,0 +1,438 @@
+import { mkdirSync } from 'node:fs';
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { threadId } from 'node:worker_threads';
+import { isProcessAlive } from '../utils/process.utils';
+
+// Types definition
+// ===========================================================
+
+export namespace LimiterStore {
+    export type Window = {
+        limit: number;
+        intervalMs: number;
+    };
+    export type Limits = {
+        requestsPerSecond: number;
+        burst: number;
+        refillIntervalMs: number;
+        windows: Array<Window>;
+        maxConcurrent: number;
+    };
+    export type WindowState = {
+        intervalMs: number;
+        used: number;
+        log: Array<{ at: number; weight: number }>;
+    };
+    export type State = {
+        tokens: number;
+        lastRefillAt: number;
+        pausedUntil: number;
+        windows: Array<WindowState>;
+        running: Record<string, number>;
+    };
+    export type Adapter = {
+        /**
+         * Consumes the capacity needed by a request if every limit has room for it
+         * Resolves with 0 if the capacity was consumed, otherwise with the delay in milliseconds
+         * before trying again (Infinity if only a release can free a slot: stores shared by several
+         * limiters must then call the `onRelease` listeners, or return a polling delay instead).
+         */
+        acquire(weight: number, limits: Limits, now: number): Promise<number>;
+        /** Frees the concurrency slot taken by a request (only called when maxConcurrent is finite) */
+        release(): Promise<void>;
+        /** Pauses all dispatch until the given time, and empties the bucket */
+        pause(until: number): Promise<void>;
+        /** Optional: calls the listener once, on the next release of a slot by any limiter using the store */
+        onRelease?(listener: () => void): void;
+    };
+    export type FileStoreOptions = {
+        path: string;
+        lockTimeoutMs?: number;
+        staleLockMs?: number;
+        pollIntervalMs?: number;
+    };
+}
+
+// Functions definition
+// ===========================================================
+
+/**
+ * Creates a new state, with no window entry nor running request
+ * @param tokens The number of tokens in the bucket
+ * @param lastRefillAt Timestamp in milliseconds from which the bucket refills
+ * @returns The new state
+ */
+function createState(tokens: number, lastRefillAt: number): LimiterStore.State {
+    return { tokens, lastRefillAt, pausedUntil: 0, windows: [], running: {} };
+}
+
+/**
+ * Consumes the capacity needed by a request if every limit has room for it
+ * @param state The state to update
+ * @param weight The weight of the request
+ * @param limits The limits of the limiter
+ * @param now The current timestamp in milliseconds
+ * @param owner Identifier of the process holding the concurrency slot
+ * @returns 0 if the capacity was consumed, otherwise the delay in milliseconds before
+ * trying again (Infinity if only a release can free a slot)
+ */
+function acquireState(state: LimiterStore.State, weight: number, limits: LimiterStore.Limits, now: number, owner: string): number {
+    // The windows are reset when the limits change
+    const windowsChanged = state.windows.length !== limits.windows.length
+        || state.windows.some((window, index) => window.intervalMs !== limits.windows[index]!.intervalMs);
+    if (windowsChanged) {
+        state.windows = limits.windows.map(({ intervalMs }) => ({ intervalMs, used: 0, log: [] }));
+    }
+
+    // Wait for the end of the pause, if any
+    if (now < state.pausedUntil) {
+        return state.pausedUntil - now;
+    }
+
+    // Wait for a running request to be released
+    const running = Object.values(state.running).reduce((total, count) => total + count, 0);
+    if (running >= limits.maxConcurrent) {
+        return Infinity;
+    }
+
+    // Wait for the bucket and every window to have room
+    refill(state, limits, now);
+    let waitMs = nextTokensIn(state, weight, limits, now);
+    state.windows.forEach((window, index) => {
+        waitMs = Math.max(waitMs, windowRoomIn(window, limits.windows[index]!.limit, weight, now));
+    });
+    if (waitMs > 0) {
+        return waitMs;
+    }
+
+    // Consume the capacity
+    state.tokens -= weight;
+    for (const window of state.windows) {
+        // Close entries are merged (at the latest time, so they never expire early) to bound the log length
+        const last = window.log[window.log.length - 1];
+        if (last && now - last.at < window.intervalMs / 100) {
+            last.at = Math.max(last.at, now);
+            last.weight += weight;
+        } else {
+            window.log.push({ at: now, weight });
+        }
+        window.used += weight;
+    }
+    if (limits.maxConcurrent !== Infinity) {
+        state.running[owner] = (state.running[owner] ?? 0) + 1;
+    }
+    return 0;
+}
+
+/**
+ * Frees the concurrency slot taken by a request
+ * @param state The state to update
+ * @param owner Identifier of the process holding the concurrency slot
+ */
+function releaseState(state: LimiterStore.State, owner: string): void {
+    const count = (state.running[owner] ?? 0) - 1;
+    if (count > 0) {
+        state.running[owner] = count;
+    } else {
+        delete state.running[owner];
+    }
+}
+
+/**
+ * Pauses all dispatch until the given time, and empties the bucket
+ * so that requests resume at the refill rate instead of in a burst
+ * @param state The state to update
+ * @param until Timestamp in milliseconds of the end of the pause
+ */
+function pauseState(state: LimiterStore.State, until: number): void {
+    if (until <= state.pausedUntil) {
+        return;
+    }
+    state.pausedUntil = until;
+    state.tokens = 0;
+    state.lastRefillAt = until;
+}
+
+/**
+ * Adds the tokens earned since the last refill, up to the bucket capacity
+ * @param state The state to update
+ * @param limits The limits of the limiter
+ * @param now The current timestamp in milliseconds
+ */
+function refill(state: LimiterStore.State, limits: LimiterStore.Limits, now: number): void {
+    // A lower capacity (e.g. after the rate was decreased) applies right away
+    state.tokens = Math.min(limits.burst, state.tokens);
+    if (now < state.lastRefillAt) {
+        return; // paused, the bucket starts refilling at the end of the pause
+    }
+    const intervals = Math.floor((now - state.lastRefillAt) / limits.refillIntervalMs);
+    if (intervals <= 0) {
+        return;
+    }
+
+    state.tokens = Math.min(limits.burst, state.tokens + intervals * tokensPerRefill(limits));
+    state.lastRefillAt = state.tokens >= limits.burst ? now : state.lastRefillAt + intervals * limits.refillIntervalMs;
+}
+
+/**
+ * Calculates the delay before enough tokens are available
+ * @param state The current state
+ * @param count The number of tokens needed
+ * @param limits The limits of the limiter
+ * @param now The current timestamp in milliseconds
+ * @returns The delay in milliseconds (0 if the tokens are available)
+ */
+function nextTokensIn(state: LimiterStore.State, count: number, limits: LimiterStore.Limits, now: number): number {
+    if (state.tokens >= count) {
+        return 0;
+    }
+    const intervals = Math.ceil((count - state.tokens) / tokensPerRefill(limits));
+    return Math.max(0, state.lastRefillAt + intervals * limits.refillIntervalMs - now);
+}
+
+/**
+ * Returns the number of tokens added to the bucket at each refill, at the current rate
+ * @param limits The limits of the limiter
+ * @returns The number of tokens per refill
+ */
+function tokensPerRefill(limits: LimiterStore.Limits): number {
+    return limits.requestsPerSecond * limits.refillIntervalMs / 1_000;
+}
+
+/**
+ * Calculates the delay before a sliding window has room for a request
+ * Also removes the entries that left the window
+ * @param window The window state
+ * @param limit The maximum weight allowed in the window
+ * @param weight The weight of the request
+ * @param now The current timestamp in milliseconds
+ * @returns The delay in milliseconds (0 if the window has room)
+ */
+function windowRoomIn(window: LimiterStore.WindowState, limit: number, weight: number, now: number): number {
+    const start = now - window.intervalMs;
+    while (window.log.length > 0 && window.log[0]!.at <= start) {
+        window.used -= window.log.shift()!.weight;
+    }
+
+    // Find the entry whose expiration frees enough room
+    let excess = window.used + weight - limit;
+    if (excess <= 0) {
+        return 0;
+    }
+    for (const entry of window.log) {
+        excess -= entry.weight;
+        if (excess <= 0) {
+            return Math.max(1, entry.at + window.intervalMs - now + 1);
+        }
+    }
+    return window.intervalMs; // unreachable, the weight always fits the limit
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Default limiter store, keeping the state in memory
+ * A store can be shared by several limiters of the same process, so that they share the same limits:
+ * a release by any of them wakes up the limiters waiting for a concurrency slot.
+ */
+export class MemoryLimiterStore implements LimiterStore.Adapter {
+    /** State of the limits, created on first use */
+    private state: LimiterStore.State | null = null;
+
+    /** Listeners waiting for the next release */
+    private releaseListeners: Array<() => void> = [];
+
+    // Public methods
+
+    public async acquire(weight: number, limits: LimiterStore.Limits, now: number): Promise<number> {
+        this.state ??= createState(limits.burst, now);
+        return acquireState(this.state, weight, limits, now, 'local');
+    }
+
+    public async release(): Promise<void> {
+        if (this.state) {
+            releaseState(this.state, 'local');
+        }
+        const listeners = this.releaseListeners;
+        this.releaseListeners = [];
+        listeners.forEach((listener) => listener());
+    }
+
+    public async pause(until: number): Promise<void> {
+        this.state ??= createState(0, until);
+        pauseState(this.state, until);
+    }
+
+    public onRelease(listener: () => void): void {
+        this.releaseListeners.push(listener);
+    }
+}
+
+/**
+ * Limiter store sharing the state between processes (and worker threads) of the same machine,
+ * through a JSON file guarded by a lock file created atomically.
+ * Each operation locks the file, reads the state, updates it and writes it back. Concurrency slots
+ * are counted per process, and the slots of processes that died are freed. As a release in another
+ * process does not wake up this one, requests waiting only for a concurrency slot are retried
+ * every `pollIntervalMs`.
+ */
+export class FileLimiterStore implements LimiterStore.Adapter {
+    /** Path of the state file */
+    private readonly path: string;
+
+    /** Path of the lock file */
+    private readonly lockPath: string;
+
+    /** Maximum time in milliseconds to wait for the lock */
+    private readonly lockTimeoutMs: number;
+
+    /** Age in milliseconds after which a lock is considered abandoned */
+    private readonly staleLockMs: number;
+
+    /** Delay in milliseconds before retrying a request waiting for a concurrency slot */
+    private readonly pollIntervalMs: number;
+
+    /** Identifier of this process (and thread) in the concurrency slots */
+    private readonly owner: string = `${process.pid}.${threadId}`;
+
+    /**
+     * Creates a new file-backed limiter store
+     * @param options Configuration options
+     * @param options.path Path of the state file, shared by every process using the same limits (its directory is created if missing)
+     * @param options.lockTimeoutMs Maximum time in milliseconds to wait for the lock (default: 5_000)
+     * @param options.staleLockMs Age in milliseconds after which a lock is considered abandoned and removed (default: 10_000)
+     * @param options.pollIntervalMs Delay in milliseconds before retrying a request waiting for a concurrency slot (default: 50)
+     * @throws Error if the path is empty or a delay is not positive
+     */
+    constructor(options: LimiterStore.FileStoreOptions) {
+        const { path, lockTimeoutMs = 5_000, staleLockMs = 10_000, pollIntervalMs = 50 } = options;
+
+        if (!path || typeof path !== 'string') {
+            throw new Error('Store path must be a non-empty string!');
+        }
+        if (!(lockTimeoutMs > 0) || !(staleLockMs > 0) || !(pollIntervalMs > 0)) {
+            throw new Error('lockTimeoutMs, staleLockMs and pollIntervalMs must be > 0');
+        }
+
+        this.path = path;
+        this.lockPath = `${path}.lock`;
+        this.lockTimeoutMs = lockTimeoutMs;
+        this.staleLockMs = staleLockMs;
+        this.pollIntervalMs = pollIntervalMs;
+
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    // Public methods
+
+    public async acquire(weight: number, limits: LimiterStore.Limits, now: number): Promise<number> {
+        // The time is read again once the lock is taken: waiting for it can take up to lockTimeoutMs
+        const current = () => Math.max(now, Date.now());
+        const waitMs = await this.update((state) => {
+            // Free the slots of the processes that died while holding them
+            for (const owner of Object.keys(state.running)) {
+                if (!isProcessAlive(Number(owner.split('.')[0]))) {
+                    delete state.running[owner];
+                }
+            }
+            return acquireState(state, weight, limits, current(), this.owner);
+        }, () => createState(limits.burst, current()));
+
+        return waitMs === Infinity ? this.pollIntervalMs : waitMs;
+    }
+
+    public async release(): Promise<void> {
+        await this.update((state) => releaseState(state, this.owner), () => createState(0, Date.now()));
+    }
+
+    public async pause(until: number): Promise<void> {
+        await this.update((state) => pauseState(state, until), () => createState(0, until));
+    }
+
+    // Private methods
+
+    /**
+     * Updates the state under the lock
+     * @param fn The function updating the state
+     * @param init Creates the state when the file is missing or unreadable
+     * @returns The result of the function
+     */
+    private async update<T>(fn: (state: LimiterStore.State) => T, init: () => LimiterStore.State): Promise<T> {
+        await this.lock();
+        try {
+            const state = await this.readState() ?? init();
+            const result = fn(state);
+            await this.writeState(state);
+            return result;
+        } finally {
+            await rm(this.lockPath, { force: true });
+        }
+    }
+
+    /**
+     * Reads the state file
+     * @returns The state, or null if the file is missing or unreadable
+     */
+    private async readState(): Promise<LimiterStore.State | null> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf8')) as LimiterStore.State;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Writes the state file, atomically (temporary file then rename)
+     * @param state The state to write
+     */
+    private async writeState(state: LimiterStore.State): Promise<void> {
+        const tmp = `${this.path}.${this.owner}.tmp`;
+        await writeFile(tmp, JSON.stringify(state));
+        await rename(tmp, this.path);
+    }
+
+    /**
+     * Takes the lock file, removing it first if it was abandoned
+     * @throws Error if the lock can't be taken within lockTimeoutMs
+     */
+    private async lock(): Promise<void> {
+        const deadline = Date.now() + this.lockTimeoutMs;
+
+        while (true) {
+            try {
+                const handle = await open(this.lockPath, 'wx');
+                await handle.writeFile(String(process.pid));
+                await handle.close();
+                return;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            await this.removeStaleLock();
+            if (Date.now() > deadline) {
+                throw new Error(`Timed out waiting for the lock of ${this.path}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 1 + Math.random() * 4));
+        }
+    }
+
+    /**
+     * Removes the lock file if its owner died or it is older than staleLockMs
+     */
+    private async removeStaleLock(): Promise<void> {
+        try {
+            const [info, content] = await Promise.all([stat(this.lockPath), readFile(this.lockPath, 'utf8')]);
+            const pid = Number(content);
+            const abandoned = Date.now() - info.mtimeMs > this.staleLockMs || (pid > 0 && !isProcessAlive(pid));
+            if (abandoned) {
+                await rm(this.lockPath, { force: true });
+            }
+        } catch {
+            // The lock was released in the meantime
+        }
+    }
+}
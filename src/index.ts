@@ -1,6 +1,14 @@
 export * as ApiCallDeduplicator from './api/call-deduplicator';
 export * as ApiCallLimiter from './api/call-limiter';
+export * as KeyedApiCallLimiter from './api/keyed-call-limiter';
+export * as LimiterStore from './api/limiter-store';
+export * as CacheStorage from './runtime/cache-storage';
+export * as FileLocker from './runtime/file-locker';
 export * as Gate from './runtime/gate';
+export * as KeyedLocker from './runtime/keyed-locker';
 export * as Logger from './runtime/logger';
 export * as Locker from './runtime/locker';
 export * as MemoryCache from './runtime/memory-cache';
+export * as ReadWriteLocker from './runtime/read-write-locker';
+export * as Semaphore from './runtime/semaphore';
+export * as SizeUtils from './utils/size.utils';
@@ -0,0 +1,337 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { deserialize, serialize } from 'node:v8';
+
+// Types definition
+// ===========================================================
+
+export namespace CacheStorage {
+    export type Entry = {
+        data: any;
+        size: number;
+        ttl: number;
+        stale: number;
+        expireAt: number;
+        tags?: string[];
+    };
+    export type Adapter = {
+        /** Number of items held in memory by the storage */
+        readonly size: number;
+        /** Returns the item held in memory for the key, without changing its LRU position */
+        get(key: string): Entry | undefined;
+        /** Stores the item as the most recently used one */
+        set(key: string, entry: Entry): void;
+        /** Removes the item from the storage (including any persisted copy) */
+        delete(key: string): boolean;
+        /** Iterates over the items held in memory, least recently used first */
+        entries(): IterableIterator<[string, Entry]>;
+        /** Removes every item from the storage (including any persisted copy) */
+        clear(): void;
+        /** Optional: receives the items evicted from memory to make room */
+        spill?(key: string, entry: Entry): void;
+        /** Optional: returns (and forgets) an item previously spilled */
+        restore?(key: string): Entry | undefined;
+        /** Optional: removes the spilled items that are no longer usable */
+        prune?(now: number): number;
+        /** Optional: iterates over the spilled items (not held in memory), with their metadata */
+        spilled?(): IterableIterator<[string, SpilledInfo]>;
+    };
+    export type FileStorageOptions = {
+        directory: string;
+        maxDiskSizeMB?: number;
+    };
+    export type FileRecord = {
+        key: string;
+        entry: Entry;
+    };
+    export type SpilledInfo = {
+        size: number;
+        expireAt: number;
+        stale: number;
+        tags?: string[];
+    };
+    export type FileIndex = SpilledInfo & {
+        file: string;
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Default cache storage, keeping items in a Map ordered from least to most recently used
+ */
+export class MemoryStorage implements CacheStorage.Adapter {
+    /** Items held in memory, in LRU order */
+    private readonly store: Map<string, CacheStorage.Entry> = new Map();
+
+    // Public methods
+
+    public get size(): number {
+        return this.store.size;
+    }
+
+    public get(key: string): CacheStorage.Entry | undefined {
+        return this.store.get(key);
+    }
+
+    public set(key: string, entry: CacheStorage.Entry): void {
+        this.store.delete(key); // delete old item and add new one, for LRU
+        this.store.set(key, entry);
+    }
+
+    public delete(key: string): boolean {
+        return this.store.delete(key);
+    }
+
+    public entries(): IterableIterator<[string, CacheStorage.Entry]> {
+        return this.store.entries();
+    }
+
+    public clear(): void {
+        this.store.clear();
+    }
+}
+
+/**
+ * Cache storage keeping items in memory and spilling evicted items to a local directory.
+ * Spilled items survive restarts: the directory is indexed when the storage is created,
+ * and items are read back (with their expiration and size) the next time they are requested.
+ */
+export class FileStorage implements CacheStorage.Adapter {
+    /** Directory where spilled items are written */
+    private readonly directory: string;
+
+    /** Maximum allowed size of spilled items in bytes */
+    private readonly maxDiskSizeBytes: number;
+
+    /** Items held in memory, in LRU order */
+    private readonly store: Map<string, CacheStorage.Entry> = new Map();
+
+    /** Items spilled to disk, oldest first */
+    private readonly index: Map<string, CacheStorage.FileIndex> = new Map();
+
+    /** Current size of all spilled items in bytes */
+    private currentDiskSizeBytes: number = 0;
+
+    /**
+     * Creates a new file-backed storage, indexing the items already present in the directory
+     * @param options Configuration options
+     * @param options.directory Directory where spilled items are written (created if missing)
+     * @param options.maxDiskSizeMB Maximum size of spilled items in megabytes (default: Infinity)
+     */
+    constructor(options: CacheStorage.FileStorageOptions) {
+        const { directory, maxDiskSizeMB = Infinity } = options;
+
+        if (!directory || typeof directory !== 'string') {
+            throw new Error('Storage directory must be a non-empty string!');
+        }
+        if (maxDiskSizeMB <= 0) {
+            throw new Error('Storage disk size must be greater than 0 MB');
+        }
+
+        this.directory = directory;
+        this.maxDiskSizeBytes = maxDiskSizeMB * 1024 * 1024;
+
+        mkdirSync(this.directory, { recursive: true });
+        this.loadIndex();
+    }
+
+    // Public methods
+
+    public get size(): number {
+        return this.store.size;
+    }
+
+    /**
+     * Returns the current disk usage of the spilled items
+     * @returns The current disk usage in megabytes
+     */
+    public currentDiskUsage(): number {
+        return this.currentDiskSizeBytes / 1024 / 1024;
+    }
+
+    public get(key: string): CacheStorage.Entry | undefined {
+        return this.store.get(key);
+    }
+
+    public set(key: string, entry: CacheStorage.Entry): void {
+        this.removeFile(key); // the spilled copy (if any) is now outdated
+        this.store.delete(key); // delete old item and add new one, for LRU
+        this.store.set(key, entry);
+    }
+
+    public delete(key: string): boolean {
+        const removedFile = this.removeFile(key);
+        const removed = this.store.delete(key);
+        return removed || removedFile;
+    }
+
+    public entries(): IterableIterator<[string, CacheStorage.Entry]> {
+        return this.store.entries();
+    }
+
+    public clear(): void {
+        for (const key of [...this.index.keys()]) {
+            this.removeFile(key);
+        }
+        this.store.clear();
+    }
+
+    /**
+     * Writes an evicted item to disk
+     * @param key Unique identifier of the item
+     * @param entry The evicted item
+     */
+    public spill(key: string, entry: CacheStorage.Entry): void {
+        this.store.delete(key);
+        this.writeFile(key, entry);
+        this.evictOldestFiles();
+    }
+
+    /**
+     * Reads a spilled item back from disk and removes it from the directory
+     * @param key Unique identifier of the item
+     * @returns The spilled item, or undefined if not found or unreadable
+     */
+    public restore(key: string): CacheStorage.Entry | undefined {
+        const meta = this.index.get(key);
+        if (!meta) {
+            return undefined;
+        }
+
+        const record = this.readFile(meta.file);
+        this.removeFile(key);
+
+        return record?.key === key ? record.entry : undefined;
+    }
+
+    /**
+     * Removes the spilled items whose expiration and stale window have passed
+     * @param now The current timestamp in milliseconds
+     * @returns The number of removed items
+     */
+    public prune(now: number): number {
+        let removed = 0;
+        for (const [key, meta] of this.index) {
+            if (now > meta.expireAt + meta.stale) {
+                this.removeFile(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Iterates over the spilled items, oldest first
+     * @returns An iterator over the keys and metadata (size, expiration, tags) of the spilled items
+     */
+    public *spilled(): IterableIterator<[string, CacheStorage.SpilledInfo]> {
+        for (const [key, { size, expireAt, stale, tags }] of this.index) {
+            yield [key, { size, expireAt, stale, ...(tags ? { tags } : {}) }];
+        }
+    }
+
+    /**
+     * Writes every item held in memory to disk, so they can be restored after a restart
+     * Items stay in memory; call this before shutting down the process.
+     */
+    public flush(): void {
+        for (const [key, entry] of this.store) {
+            this.writeFile(key, entry);
+        }
+        this.evictOldestFiles();
+    }
+
+    // Private methods
+
+    /**
+     * Indexes the items found in the directory, removing the expired and unreadable ones
+     */
+    private loadIndex(): void {
+        const now = Date.now();
+
+        for (const name of readdirSync(this.directory)) {
+            if (!name.endsWith('.bin')) {
+                continue;
+            }
+            const file = join(this.directory, name);
+            const record = this.readFile(file);
+
+            if (!record || now > record.entry.expireAt + record.entry.stale) {
+                rmSync(file, { force: true });
+                continue;
+            }
+
+            const { size, expireAt, stale, tags } = record.entry;
+            this.index.set(record.key, { file, size, expireAt, stale, ...(tags ? { tags } : {}) });
+            this.currentDiskSizeBytes += size;
+        }
+
+        this.evictOldestFiles();
+    }
+
+    /**
+     * Writes an item to its file, atomically (temporary file then rename)
+     * @param key Unique identifier of the item
+     * @param entry The item to write
+     */
+    private writeFile(key: string, entry: CacheStorage.Entry): void {
+        this.removeFile(key);
+
+        const file = join(this.directory, `${createHash('sha1').update(key).digest('hex')}.bin`);
+        const record: CacheStorage.FileRecord = { key, entry };
+        const tmp = `${file}.${process.pid}.tmp`;
+
+        writeFileSync(tmp, serialize(record));
+        renameSync(tmp, file);
+
+        const { size, expireAt, stale, tags } = entry;
+        this.index.set(key, { file, size, expireAt, stale, ...(tags ? { tags } : {}) });
+        this.currentDiskSizeBytes += size;
+    }
+
+    /**
+     * Reads an item file
+     * @param file Path of the file
+     * @returns The record stored in the file, or null if it can't be read
+     */
+    private readFile(file: string): CacheStorage.FileRecord | null {
+        try {
+            return deserialize(readFileSync(file)) as CacheStorage.FileRecord;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Removes the file of a spilled item, if any
+     * @param key Unique identifier of the item
+     * @returns True if the item was spilled (and removed)
+     */
+    private removeFile(key: string): boolean {
+        const meta = this.index.get(key);
+        if (!meta) {
+            return false;
+        }
+
+        this.index.delete(key);
+        this.currentDiskSizeBytes -= meta.size;
+        rmSync(meta.file, { force: true });
+        return true;
+    }
+
+    /**
+     * Removes the oldest spilled items until the disk usage is under the maximum allowed size
+     */
+    private evictOldestFiles(): void {
+        while (this.currentDiskSizeBytes > this.maxDiskSizeBytes) {
+            const first = this.index.keys().next();
+            if (first.done) {
+                break;
+            }
+            this.removeFile(first.value);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import { link, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Locker } from './locker';
+import { isProcessAlive } from '../utils/process.utils';
+
+// Types definition
+// ===========================================================
+
+export namespace FileLocker {
+    export type Options = {
+        maxQueueLength?: number;
+        staleMs?: number;
+        refreshIntervalMs?: number;
+        pollIntervalMs?: number;
+    };
+    export type LockRecord = {
+        pid: number;
+        token: string;
+        acquiredAt: number;
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Cross-process lock (mutex) for separate Node processes of the same machine.
+ * The lock is a file created atomically (exclusive create): whoever creates it holds the lock.
+ * A lock whose process died is considered abandoned and taken over. A lock whose owner can't be
+ * read (e.g. a file left half-written by a crash) is taken over once it was not refreshed for
+ * `staleMs`; a holder that is alive keeps the lock however long it runs, even if synchronous
+ * work (e.g. a sqlite migration) blocks its refreshes. Calls of the same process
+ * wait in an in-process Locker first, so only one of them polls the file at a time.
+ */
+export class FileLocker {
+    private readonly path: string;
+    private readonly staleMs: number;
+    private readonly refreshIntervalMs: number;
+    private readonly pollIntervalMs: number;
+
+    /** Serializes the calls of this process */
+    private readonly locker: Locker;
+
+    /**
+     * @param path Path of the lock file (its directory is created if missing)
+     * @param options Configuration options
+     * @param options.maxQueueLength Maximum number of waiters of this process allowed in the queue (default: Infinity)
+     * @param options.staleMs Time in milliseconds without refresh after which a lock with no readable owner is considered abandoned (default: 10_000)
+     * @param options.refreshIntervalMs Interval in milliseconds between two refreshes of a held lock (default: staleMs / 3)
+     * @param options.pollIntervalMs Delay in milliseconds between two attempts to take a busy lock (default: 50)
+     * @throws Error if the path is empty, or a delay is not positive or the refresh interval is not shorter than staleMs.
+     */
+    constructor(path: string, options: FileLocker.Options = {}) {
+        const { maxQueueLength = Infinity, staleMs = 10_000, pollIntervalMs = 50 } = options;
+        const { refreshIntervalMs = staleMs / 3 } = options;
+
+        if (!path || typeof path !== 'string') {
+            throw new Error('Lock path must be a non-empty string!');
+        }
+        if (!(staleMs > 0) || !(pollIntervalMs > 0) || !(refreshIntervalMs > 0 && refreshIntervalMs < staleMs)) {
+            throw new Error('staleMs and pollIntervalMs must be > 0, refreshIntervalMs must be > 0 and < staleMs');
+        }
+
+        this.path = path;
+        this.staleMs = staleMs;
+        this.refreshIntervalMs = refreshIntervalMs;
+        this.pollIntervalMs = pollIntervalMs;
+        this.locker = new Locker({ maxQueueLength, logger: null });
+
+        mkdirSync(dirname(path), { recursive: true });
+    }
+
+    /**
+     * Acquires the lock file, runs the async function, and releases the lock.
+     * @param fn The async function to run exclusively, across processes.
+     * @param timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @returns The result of the function.
+     * @throws Error if the lock could not be acquired within the timeout or queue is full.
+     */
+    public async withLock<T>(fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
+        const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+
+        return this.locker.withLock(async () => {
+            const token = await this.acquire(deadline);
+            const refreshInterval = setInterval(() => void this.refresh(token), this.refreshIntervalMs).unref();
+            try {
+                return await fn();
+            } finally {
+                clearInterval(refreshInterval);
+                await this.release(token);
+            }
+        }, timeoutMs);
+    }
+
+    // Private methods
+
+    /**
+     * Internal: Creates the lock file, waiting for the holder to release it (or to be found stale), or throws on timeout.
+     */
+    private async acquire(deadline: number): Promise<string> {
+        const token = randomUUID();
+        const record: FileLocker.LockRecord = { pid: process.pid, token, acquiredAt: Date.now() };
+
+        while (true) {
+            try {
+                await writeFile(this.path, JSON.stringify(record), { flag: 'wx' });
+                return token;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            await this.recoverStaleLock();
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new Error('FileLocker acquire timeout');
+            }
+            await new Promise((resolve) => setTimeout(resolve, Math.min(this.pollIntervalMs, remaining)));
+        }
+    }
+
+    /**
+     * Internal: Removes the lock file if its process died, or if it has no readable owner and was not refreshed for staleMs.
+     * The file is first moved aside, then checked again: if another process took a fresh lock
+     * in the meantime, it is put back (without overwriting any newer lock).
+     */
+    private async recoverStaleLock(): Promise<void> {
+        const lock = await this.readLock(this.path);
+        if (!lock) {
+            return;
+        }
+        const { record, mtimeMs } = lock;
+        const abandoned = record !== null ? !isProcessAlive(record.pid) : Date.now() - mtimeMs > this.staleMs;
+        if (!abandoned) {
+            return;
+        }
+
+        const aside = `${this.path}.${randomUUID()}.stale`;
+        try {
+            await rename(this.path, aside);
+        } catch {
+            return; // already recovered (or released) by someone else
+        }
+        const moved = await this.readLock(aside);
+        if (moved && moved.record?.token !== record?.token) {
+            await link(aside, this.path).catch(() => undefined);
+        }
+        await rm(aside, { force: true });
+    }
+
+    /**
+     * Internal: Bumps the modification time of the lock file, as long as this call still holds it.
+     */
+    private async refresh(token: string): Promise<void> {
+        try {
+            const lock = await this.readLock(this.path);
+            if (lock?.record?.token === token) {
+                const now = new Date();
+                await utimes(this.path, now, now);
+            }
+        } catch {
+            // The next refresh will try again, the lock is only stale after staleMs
+        }
+    }
+
+    /**
+     * Internal: Removes the lock file, unless it was taken over by another process.
+     */
+    private async release(token: string): Promise<void> {
+        const lock = await this.readLock(this.path);
+        if (lock?.record?.token === token) {
+            await rm(this.path, { force: true });
+        }
+    }
+
+    /**
+     * Internal: Reads a lock file, returns null if it doesn't exist (record is null while it is being written).
+     */
+    private async readLock(file: string): Promise<{ record: FileLocker.LockRecord | null; mtimeMs: number } | null> {
+        try {
+            const [info, content] = await Promise.all([stat(file), readFile(file, 'utf8')]);
+            let record: FileLocker.LockRecord | null = null;
+            try {
+                record = JSON.parse(content) as FileLocker.LockRecord;
+            } catch {
+                // Created but not written yet
+            }
+            return { record, mtimeMs: info.mtimeMs };
+        } catch {
+            return null;
+        }
+    }
+}
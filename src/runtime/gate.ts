@@ -1,19 +1,55 @@
+// Types definition
+// ===========================================================
+
+export namespace Gate {
+    export type WaitOptions = {
+        timeoutMs?: number;
+        signal?: AbortSignal;
+    };
+    export type CloseOptions = {
+        rejectPending?: boolean;
+        reason?: string;
+    };
+    export type Waiter = {
+        resolve: () => void;
+        reject: (error: Error) => void;
+    };
+}
+
+// Errors definition
+// ===========================================================
+
+/**
+ * Error thrown to the waiters of a gate closed with `rejectPending`
+ */
+export class GateClosedError extends Error {
+    /** Reason given when closing the gate, if any */
+    public readonly reason: string | undefined;
+
+    /**
+     * @param reason Reason given when closing the gate
+     */
+    constructor(reason?: string) {
+        super(reason ?? 'Gate closed');
+        this.name = 'GateClosedError';
+        this.reason = reason;
+    }
+}
+
+// Class definition
+// ===========================================================
+
 /**
  * Gate class provides a mechanism to control and check gate state (open/closed).
  * It's useful for managing asynchronous initialization processes and ensuring
  * operations only proceed when the gate is open, like a queue waiting to be processed.
+ * Each waiter can give up on its own (timeout or abort signal) without affecting the others.
  */
 export class Gate {
     /** Tracks whether the door is open */
     private _isOpen: boolean = false;
-    /** Tracks the number of waiters currently waiting for the door to open */
-    private _waitingCount: number = 0;
-    /** Promise that resolves when the door becomes open */
-    private _pendingPromise: Promise<void> | null = null;
-    /** Function to resolve the pending promise when door opens */
-    private _pendingResolve: (() => void) | null = null;
-    /** Function to reject the pending promise if needed */
-    private _pendingReject: ((reason?: any) => void) | null = null;
+    /** Callers currently waiting for the door to open, in arrival order */
+    private _waiters: Gate.Waiter[] = [];
 
     // Public methods
 
@@ -25,26 +61,28 @@ export class Gate {
     public open(resolvePending: boolean = true): void {
         if (this._isOpen !== true) {
             this._isOpen = true;            // Update the state to "open"
+            const waiters = this.reset();
             if (resolvePending) {
-                this._pendingResolve?.();   // Resolve the current promise
+                waiters.forEach((waiter) => waiter.resolve());
             }
-            this.reset();
         }
     }
 
     /**
      * Closes the gate.
-     * If already closed, this method has no effect.
-     * This resets any pending promises, requiring callers to wait again.
-     * @param rejectPending Whether to reject pending promises (default: false)
+     * If already closed, this method has no effect on the state, but still rejects the pending
+     * promises if asked to.
+     * @param options Whether to reject pending promises (default: false), or options
+     * @param options.rejectPending Whether to reject pending promises with a GateClosedError (default: false)
+     * @param options.reason Reason given to the GateClosedError (default: 'Gate closed')
      */
-    public close(rejectPending: boolean = false): void {
-        if (this._isOpen !== false) {
-            this._isOpen = false;           // Update the state to "closed"
-            if (rejectPending) {
-                this._pendingReject?.();    // Reject the current promise
-            }
-            this.reset();
+    public close(options: boolean | Gate.CloseOptions = false): void {
+        const { rejectPending = false, reason } = typeof options === 'boolean' ? { rejectPending: options } : options;
+
+        this._isOpen = false;               // Update the state to "closed"
+        if (rejectPending) {
+            const error = new GateClosedError(reason);
+            this.reset().forEach((waiter) => waiter.reject(error));
         }
     }
 
@@ -53,20 +91,54 @@ export class Gate {
      * If the gate is already open, resolves immediately.
      * If the gate is closed, returns a promise that will resolve when the gate opens.
      * This allows code to wait at the "gate" until it's ready to proceed.
+     * @param options Options for this waiter
+     * @param options.timeoutMs Maximum time in milliseconds to wait for the gate to open (default: no timeout)
+     * @param options.signal Signal to stop waiting
      * @returns A promise that resolves when the gate is open
+     * @throws Error if the timeout is reached, GateClosedError if the gate is closed with `rejectPending`, or the signal's reason if it is aborted
      */
-    public enterOrWait(): Promise<void> {
+    public enterOrWait(options: Gate.WaitOptions = {}): Promise<void> {
+        const { timeoutMs, signal } = options;
+
         if (this._isOpen === true) {
             return Promise.resolve();
         }
-        this._waitingCount++;
-        if (!this._pendingPromise) {
-            this._pendingPromise = new Promise<void>((resolve, reject) => {
-                this._pendingResolve = resolve;
-                this._pendingReject = reject;
-            });
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
         }
-        return this._pendingPromise;
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const cleanup = () => {
+                if (timer) clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const leave = (error: unknown) => {
+                const index = this._waiters.indexOf(waiter);
+                if (index !== -1) {
+                    this._waiters.splice(index, 1);
+                }
+                cleanup();
+                reject(error);
+            };
+            const onAbort = () => leave(signal?.reason);
+            const waiter: Gate.Waiter = {
+                resolve: () => {
+                    cleanup();
+                    resolve();
+                },
+                reject: (error) => {
+                    cleanup();
+                    reject(error);
+                },
+            };
+
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => leave(new Error('Gate wait timeout')), timeoutMs);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this._waiters.push(waiter);
+        });
     }
 
     /**
@@ -76,25 +148,26 @@ export class Gate {
     public isOpen(): boolean {
         return this._isOpen;
     }
-    
+
     /**
      * Returns the number of callers currently waiting for the gate to open.
+     * Waiters that timed out or were aborted are not counted.
      * @returns The number of waiters
      */
     public getWaitingCount(): number {
-        return this._waitingCount;
+        return this._waiters.length;
     }
 
     // Private methods
 
     /**
      * Resets the gate to its initial state.
-     * Clears the promise, resolve function, reject function, and waiting count.
+     * Clears the list of waiters.
+     * @returns The waiters that were pending
      */
-    private reset(): void {
-        this._pendingPromise = null;    // Clear the promise
-        this._pendingResolve = null;    // Clear the resolve function
-        this._pendingReject = null;     // Clear the reject function
-        this._waitingCount = 0;         // Reset waiting count when gate closes
+    private reset(): Gate.Waiter[] {
+        const waiters = this._waiters;
+        this._waiters = [];
+        return waiters;
     }
 }
@@ -0,0 +1,131 @@
+// Types definition
+// ===========================================================
+
+export namespace KeyedLocker {
+    export type Waiter = {
+        resolve: () => void;
+    };
+    export type Lock = {
+        waiters: Waiter[];
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Async lock (mutex) per key, so that unrelated resources don't serialize each other.
+ * The state of a key is created when it is first locked, and dropped as soon as
+ * it is released with nobody waiting, so unused keys don't accumulate.
+ */
+export class KeyedLocker {
+    private readonly maxQueueLength: number;
+
+    /** Locks currently held, indexed by key, with their waiters */
+    private locks = new Map<string, KeyedLocker.Lock>();
+
+    /**
+     * @param maxQueueLength Maximum number of waiters allowed in the queue of each key (default: Infinity)
+     */
+    constructor(maxQueueLength: number = Infinity) {
+        this.maxQueueLength = maxQueueLength;
+    }
+
+    /**
+     * Acquires the lock of a key, runs the async function, and releases the lock.
+     * @param key The key of the resource to lock.
+     * @param fn The async function to run exclusively for this key.
+     * @param timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @returns The result of the function.
+     * @throws Error if the lock could not be acquired within the timeout or queue is full.
+     */
+    public async withLock<T>(key: string, fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
+        await this.acquire(key, timeoutMs);
+        try {
+            return await fn();
+        } finally {
+            this.release(key);
+        }
+    }
+
+    /**
+     * Acquires the locks of several keys, runs the async function, and releases the locks.
+     * Keys are locked one at a time in sorted order (duplicates ignored), so that two calls
+     * locking the same keys in a different order can't deadlock.
+     * @param keys The keys of the resources to lock.
+     * @param fn The async function to run exclusively for these keys.
+     * @param timeoutMs Optional timeout in milliseconds to wait for all the locks.
+     * @returns The result of the function.
+     * @throws Error if the locks could not be acquired within the timeout or a queue is full (no lock is kept).
+     */
+    public async withLocks<T>(keys: string[], fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
+        const sortedKeys = [...new Set(keys)].sort();
+        const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+        const acquired: string[] = [];
+
+        try {
+            for (const key of sortedKeys) {
+                await this.acquire(key, deadline === undefined ? undefined : Math.max(0, deadline - Date.now()));
+                acquired.push(key);
+            }
+            return await fn();
+        } finally {
+            acquired.reverse().forEach((key) => this.release(key));
+        }
+    }
+
+    /**
+     * Checks whether a key is currently locked.
+     * @param key The key of the resource.
+     * @returns true if the lock of the key is held
+     */
+    public isLocked(key: string): boolean {
+        return this.locks.has(key);
+    }
+
+    // Private methods
+
+    /**
+     * Internal: Waits until the lock of the key is available, or throws on timeout/queue overflow.
+     */
+    private acquire(key: string, timeoutMs?: number): Promise<void> {
+        const lock = this.locks.get(key);
+        if (!lock) {
+            this.locks.set(key, { waiters: [] });
+            return Promise.resolve();
+        }
+        if (lock.waiters.length >= this.maxQueueLength) {
+            return Promise.reject(new Error('KeyedLocker queue limit reached'));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const waiter: KeyedLocker.Waiter = {
+                resolve: () => {
+                    if (timer) clearTimeout(timer);
+                    resolve();
+                },
+            };
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => {
+                    lock.waiters.splice(lock.waiters.indexOf(waiter), 1);
+                    reject(new Error('KeyedLocker acquire timeout'));
+                }, timeoutMs);
+            }
+            lock.waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Internal: Hands the lock of the key to the next waiter, or drops the key if nobody waits.
+     */
+    private release(key: string): void {
+        const lock = this.locks.get(key);
+        const next = lock?.waiters.shift();
+        if (next) {
+            next.resolve();
+        } else {
+            this.locks.delete(key);
+        }
+    }
+}
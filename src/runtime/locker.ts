@@ -1,73 +1,192 @@
+import { Logger } from './logger';
+
+// Types definition
+// ===========================================================
+
+export namespace Locker {
+    export type Options = {
+        maxQueueLength?: number;
+        holdWarningMs?: number;
+        name?: string;
+        logger?: LoggerLike | null;
+    };
+    export type LockOptions = {
+        timeoutMs?: number;
+        signal?: AbortSignal;
+    };
+    export type LoggerLike = Pick<Logger, 'warn'>;
+    export type Waiter = {
+        resolve: () => void;
+    };
+}
+
+// Class definition
+// ===========================================================
+
 /**
  * Async lock (mutex) for concurrency control.
  * Ensures only one async operation runs in the critical section at a time.
+ * Waiters that time out or are aborted leave the queue, so they never delay the next ones.
  */
 export class Locker {
     private readonly maxQueueLength: number;
+    private readonly holdWarningMs: number;
+    private readonly logger: Locker.LoggerLike | null;
 
-    private lock: Promise<void> = Promise.resolve();
-    private queue: (() => void)[] = [];
+    private locked: boolean = false;
+    private queue: Locker.Waiter[] = [];
 
     /**
-     * @param maxQueueLength Maximum number of waiters allowed in the queue (default: Infinity)
+     * @param options Maximum number of waiters allowed in the queue (default: Infinity), or configuration options
+     * @param options.maxQueueLength Maximum number of waiters allowed in the queue (default: Infinity)
+     * @param options.holdWarningMs Logs a warning with the call site that acquired the lock when it is held longer than this (default: disabled)
+     * @param options.name Name used as the prefix of the default logger (default: 'Locker')
+     * @param options.logger Logger for the hold warnings, null to disable (default: console, prefixed with the name)
      */
-    constructor(maxQueueLength: number = Infinity) {
+    constructor(options: number | Locker.Options = Infinity) {
+        const { maxQueueLength = Infinity, holdWarningMs = Infinity, name = 'Locker', logger } =
+            typeof options === 'number' ? { maxQueueLength: options } : options;
+
+        if (!(holdWarningMs > 0)) {
+            throw new Error('holdWarningMs must be > 0');
+        }
+
         this.maxQueueLength = maxQueueLength;
+        this.holdWarningMs = holdWarningMs;
+        this.logger = logger === undefined ? new Logger(`[${name}]`) : logger;
     }
 
     /**
      * Acquires the lock, runs the async function, and releases the lock.
      * @param fn The async function to run exclusively.
-     * @param timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @param options Optional timeout in milliseconds to wait for the lock, or options
+     * @param options.timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @param options.signal Optional signal to stop waiting for the lock.
+     * @returns The result of the function.
+     * @throws Error if the lock could not be acquired within the timeout or queue is full, or the signal's reason if it is aborted.
+     */
+    public async withLock<T>(fn: () => T | Promise<T>, options?: number | Locker.LockOptions): Promise<T> {
+        const { timeoutMs, signal } = typeof options === 'number' ? { timeoutMs: options } : options ?? {};
+        const callSite = this.captureCallSite();
+
+        await this.acquire(timeoutMs, signal);
+        return this.run(fn, callSite);
+    }
+
+    /**
+     * Runs the async function with the lock if it is available right away, without waiting.
+     * @param fn The async function to run exclusively.
      * @returns The result of the function.
-     * @throws Error if the lock could not be acquired within the timeout or queue is full.
+     * @throws Error if the lock is already held.
      */
-    public async withLock<T>(fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
-        await this.acquire(timeoutMs);
+    public async tryWithLock<T>(fn: () => T | Promise<T>): Promise<T> {
+        if (this.locked) {
+            throw new Error('Locker is already locked');
+        }
+        const callSite = this.captureCallSite();
+
+        this.locked = true;
+        return this.run(fn, callSite);
+    }
+
+    /**
+     * Returns whether the lock is currently held.
+     * @returns true if the lock is held
+     */
+    public isLocked(): boolean {
+        return this.locked;
+    }
+
+    /**
+     * Returns the number of callers waiting for the lock.
+     * @returns The number of waiters
+     */
+    public queueLength(): number {
+        return this.queue.length;
+    }
+
+    // Private methods
+
+    /**
+     * Internal: Runs the function while holding the lock, warns if it is held too long, and releases the lock.
+     */
+    private async run<T>(fn: () => T | Promise<T>, callSite: string | null): Promise<T> {
+        const acquiredAt = Date.now();
+        const warningTimer = callSite === null ? undefined : setTimeout(() => {
+            this.logger?.warn(`lock held for more than ${this.holdWarningMs} ms (since ${new Date(acquiredAt).toISOString()}), acquired at:\n${callSite}`);
+        }, this.holdWarningMs).unref();
+
         try {
             return await fn();
         } finally {
+            clearTimeout(warningTimer);
             this.release();
         }
     }
 
-    // Private methods
-
     /**
-     * Internal: Waits until the lock is available, or throws on timeout/queue overflow.
+     * Internal: Waits until the lock is available, or throws on timeout/abort/queue overflow.
+     * A waiter that gives up is removed from the queue.
      */
-    private acquire(timeoutMs?: number): Promise<void> {
+    private acquire(timeoutMs?: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        if (!this.locked) {
+            this.locked = true;
+            return Promise.resolve();
+        }
         if (this.queue.length >= this.maxQueueLength) {
             return Promise.reject(new Error('Locker queue limit reached'));
         }
-        let timer: NodeJS.Timeout | undefined;
-        let release: () => void;
-        const next = new Promise<void>((resolve, reject) => {
-            release = resolve;
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const cleanup = () => {
+                if (timer) clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const leave = (error: unknown) => {
+                cleanup();
+                this.queue.splice(this.queue.indexOf(waiter), 1);
+                reject(error);
+            };
+            const onAbort = () => leave(signal?.reason);
+            const waiter: Locker.Waiter = {
+                resolve: () => {
+                    cleanup();
+                    resolve();
+                },
+            };
+
             if (timeoutMs !== undefined) {
-                timer = setTimeout(() => {
-                    reject(new Error('Locker acquire timeout'));
-                }, timeoutMs);
+                timer = setTimeout(() => leave(new Error('Locker acquire timeout')), timeoutMs);
             }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.queue.push(waiter);
         });
-        const prev = this.lock;
-        this.lock = next;
-        this.queue.push(() => {
-            if (timer) clearTimeout(timer);
-            release();
-        });
-        return prev;
     }
 
     /**
-     * Internal: Releases the lock and wakes up the next waiter, if any.
+     * Internal: Releases the lock and hands it to the next waiter, if any.
      */
     private release(): void {
         const next = this.queue.shift();
         if (next) {
-            next();
+            next.resolve();
         } else {
-            this.lock = Promise.resolve();
+            this.locked = false;
+        }
+    }
+
+    /**
+     * Internal: Captures the call site acquiring the lock, only when hold warnings are enabled.
+     */
+    private captureCallSite(): string | null {
+        if (this.holdWarningMs === Infinity || !this.logger) {
+            return null;
         }
+        // Skips the "Error" line and the frames of captureCallSite and the public Locker method
+        return (new Error().stack ?? '').split('\n').slice(3).join('\n');
     }
-}
\ No newline at end of file
+}
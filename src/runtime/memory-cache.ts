@@ -1,43 +1,190 @@
+import { EventEmitter } from 'node:events';
+import { CacheStorage, MemoryStorage } from './cache-storage';
+import { Logger } from './logger';
+import { estimateSize, SizeOf } from '../utils/size.utils';
+
+// Types definition
+// ===========================================================
+
+export namespace MemoryCache {
+    export type Expiration = 'sliding' | 'absolute';
+    export type Clone = 'structured' | 'freeze' | 'none';
+    export type Options = {
+        name?: string;
+        maxCacheSizeMB?: number;
+        maxItems?: number;
+        maxItemAgeSeconds?: number;
+        expiration?: Expiration;
+        storage?: CacheStorage.Adapter;
+        logger?: LoggerLike | null;
+        cleanupIntervalSeconds?: number;
+        clone?: Clone;
+        sizeOf?: SizeOf;
+    };
+    export type SetOptions = {
+        ttlSeconds?: number;
+        staleWhileRevalidateSeconds?: number;
+        tags?: string[];
+    };
+    export type Loader<T> = () => T | Promise<T>;
+    export type SnapshotEntry = {
+        key: string;
+        data: any;
+        ttlSeconds: number;
+        remainingSeconds: number;
+        staleWhileRevalidateSeconds: number;
+        tags?: string[];
+        /** Epoch milliseconds of the export, the time elapsed since is taken off the remaining TTL on import */
+        exportedAt?: number;
+    };
+    export type ImportOptions = {
+        overwrite?: boolean;
+    };
+    export type Entry = CacheStorage.Entry;
+    export type LoggerLike = Pick<Logger, 'info' | 'error'>;
+    export type EvictReason = 'size' | 'expired' | 'manual';
+    export type Events = {
+        set: [key: string, size: number];
+        evict: [key: string, reason: EvictReason];
+        expire: [key: string];
+        delete: [key: string];
+    };
+    export type Stats = {
+        hits: number;
+        misses: number;
+        hitRatio: number;
+        evictions: number;
+        expirations: number;
+        bytes: number;
+        entries: number;
+    };
+}
+
+// Class definition
+// ===========================================================
+
 /**
  * In-memory cache with size limitations and automatic expiration
  * Provides efficient storage with automatic cleanup mechanisms
+ *
+ * Emits typed events: `set` when an item is written, `evict` whenever an item is removed
+ * (reason: 'size', 'expired' or 'manual'), and `expire` / `delete` for expired and deleted items.
  */
-export class MemoryCache {
-    /** Name of the cache, used for logging */
-    private name: string;
+export class MemoryCache extends EventEmitter<MemoryCache.Events> {
+    /** Logger used for cleanup reports and errors, null when disabled */
+    private logger: MemoryCache.LoggerLike | null;
 
     /** Stores cache data objects with their calculated memory size */
-    private store: Map<string, { data: any; size: number, expireAt: number }> = new Map();
+    private storage: CacheStorage.Adapter;
 
     /** Current size of all cached items in bytes */
     private currentCacheSizeBytes: number = 0;
     
     /** Maximum allowed size of cache in bytes */
     private maxCacheSizeBytes: number;
+
+    /** Maximum allowed number of items in cache */
+    private maxItems: number;
+
+    /** How values are protected from mutation when written and read */
+    private clone: MemoryCache.Clone;
+
+    /** Function estimating the size of a value in bytes */
+    private sizeOf: SizeOf;
     
     /** Maximum age of cache items in milliseconds */
     private maxItemAgeMilliseconds: number;
+
+    /** Whether reads push the expiration forward ('sliding') or not ('absolute') */
+    private expiration: MemoryCache.Expiration;
+
+    /** Interval between two cleanups in milliseconds */
+    private cleanupIntervalMilliseconds: number;
+
+    /** Timer of the next scheduled cleanup, null once disposed */
+    private cleanupTimeout: NodeJS.Timeout | null = null;
+
+    /** Keys of the cached items indexed by tag */
+    private tags: Map<string, Set<string>> = new Map();
+
+    /** In-flight loads started by getOrLoad, indexed by key */
+    private loads: Map<string, Promise<any>> = new Map();
+
+    /** Counters reported by stats() */
+    private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
   
     /**
      * Creates a new cache instance
      * @param options Configuration options
      * @param options.name Name of the cache, used for logging (default: 'Cache')
      * @param options.maxCacheSizeMB Maximum cache size in megabytes (default: 10MB)
-     * @param options.maxItemAgeSeconds Maximum time in seconds before items expire (default: 60 seconds)
+     * @param options.maxItems Maximum number of items in cache (default: Infinity)
+     * @param options.maxItemAgeSeconds Default time in seconds before items expire (default: 60 seconds)
+     * @param options.expiration Expiration mode, 'sliding' resets the TTL on each read, 'absolute' never does (default: 'sliding')
+     * @param options.storage Storage adapter holding the items (default: in-memory LRU storage)
+     * @param options.logger Logger for cleanup reports and errors, null to disable (default: console, prefixed with the name)
+     * @param options.cleanupIntervalSeconds Interval in seconds between two cleanups of expired items (default: 60 seconds)
+     * @param options.clone How values are protected from mutation (default: 'structured')
+     *  - 'structured': values are cloned when written and when read (a Buffer stays a Buffer, but
+     *    Buffers nested in objects come back as Uint8Arrays, as with structuredClone)
+     *  - 'freeze': values are cloned and deeply frozen when written, reads return the frozen value
+     *  - 'none': values are stored and returned as is (the caller must not mutate them)
+     * @param options.sizeOf Function estimating the size of a value in bytes (default: estimateSize)
      */
-    constructor(options: { name?: string; maxCacheSizeMB?: number; maxItemAgeSeconds?: number } = {}) {
-        const { name = 'Cache', maxCacheSizeMB = 10, maxItemAgeSeconds = 60 } = options;
+    constructor(options: MemoryCache.Options = {}) {
+        super();
+
+        const {
+            name = 'Cache',
+            maxCacheSizeMB = 10,
+            maxItems = Infinity,
+            maxItemAgeSeconds = 60,
+            expiration = 'sliding',
+            storage = new MemoryStorage(),
+            cleanupIntervalSeconds = 60,
+            clone = 'structured',
+            sizeOf = estimateSize,
+        } = options;
         
         if (maxCacheSizeMB <= 0) {
             throw new Error('Cache size must be greater than 0 MB');
         }
+        if (!(maxItems > 0)) {
+            throw new Error('Cache max items must be greater than 0');
+        }
         if (maxItemAgeSeconds <= 0) {
             throw new Error('Cache item age must be greater than 0 seconds');
         }
+        if (expiration !== 'sliding' && expiration !== 'absolute') {
+            throw new Error(`Invalid cache expiration mode "${expiration}"`);
+        }
+        if (cleanupIntervalSeconds <= 0) {
+            throw new Error('Cache cleanup interval must be greater than 0 seconds');
+        }
+        if (clone !== 'structured' && clone !== 'freeze' && clone !== 'none') {
+            throw new Error(`Invalid cache clone mode "${clone}"`);
+        }
+        if (typeof sizeOf !== 'function') {
+            throw new Error('Cache sizeOf must be a function');
+        }
         
-        this.name = name;
+        this.logger = options.logger === undefined ? new Logger(`[${name}]`) : options.logger;
         this.maxCacheSizeBytes = maxCacheSizeMB * 1024 * 1024;
+        this.maxItems = maxItems;
+        this.clone = clone;
+        this.sizeOf = sizeOf;
         this.maxItemAgeMilliseconds = maxItemAgeSeconds * 1000;
+        this.expiration = expiration;
+        this.cleanupIntervalMilliseconds = cleanupIntervalSeconds * 1000;
+        this.storage = storage;
+
+        // Account for the items already held by the storage
+        for (const [key, item] of this.storage.entries()) {
+            this.currentCacheSizeBytes += item.size;
+            this.indexTags(key, item.tags);
+        }
+        this.evictOldestItems();
+
         this.startCleanup();
     }
   
@@ -48,7 +195,7 @@ export class MemoryCache {
      * @returns The number of items in the cache
      */
     public currentSize(): number {
-        return this.store.size;
+        return this.storage.size;
     }
 
     /**
@@ -59,48 +206,59 @@ export class MemoryCache {
         return this.currentCacheSizeBytes / 1024 / 1024;
     }
 
+    /**
+     * Returns a snapshot of the cache statistics
+     * Hits and misses are counted by `get` (and `getOrLoad`), evictions are the items removed to respect the size limit
+     * @returns The cache statistics
+     */
+    public stats(): MemoryCache.Stats {
+        const { hits, misses, evictions, expirations } = this.counters;
+        return {
+            hits,
+            misses,
+            hitRatio: hits + misses > 0 ? hits / (hits + misses) : 0,
+            evictions,
+            expirations,
+            bytes: this.currentCacheSizeBytes,
+            entries: this.storage.size,
+        };
+    }
+
     /**
      * Adds a value to the cache only if it doesn't already exist
      * @param key Unique identifier for the cached item
      * @param data The value to store (must be serializable)
-     * @throws Error if the key is invalid or data cannot be serialized
+     * @param options Options for this specific item
+     * @param options.ttlSeconds Custom TTL in seconds for this item (default: maxItemAgeSeconds)
+     * @param options.staleWhileRevalidateSeconds Time in seconds the item is kept after expiring, to be served stale by getOrLoad (default: 0)
+     * @param options.tags Tags attached to the item, see `invalidateTag`
+     * @throws Error if the key is invalid, already exists or data cannot be serialized
      */
-    public add<T>(key: string, data: T): void {
+    public add<T>(key: string, data: T, options: MemoryCache.SetOptions = {}): void {
         if (!key || typeof key !== 'string') {
             throw new Error('Cache key must be a non-empty string!');
         }
         if (data === undefined || data === null) {
             throw new Error('Data must be non-null!');
         }
-        if (this.store.has(key)) {
+        if (this.has(key)) {
             throw new Error(`Cache item with key "${key}" already exists!`);
         }
 
-        // Calculate size of data object
-        const size = this.calculateSize(data);
-            
-        // Update size tracking
-        this.currentCacheSizeBytes += size;
-
-        // Use custom TTL if provided, otherwise use default
-        const expireAt = Date.now() + this.maxItemAgeMilliseconds;
-    
-        // Add item to cache
-        const clone = structuredClone ? structuredClone(data) : JSON.parse(JSON.stringify(data));
-        this.store.set(key, { data: clone, size, expireAt });
-
-        // Evict oldest items if cache is over size limit
-        this.evictOldestItems();
+        this.write(key, data, options);
     }
   
     /**
      * Stores or updates a value in the cache
      * @param key Unique identifier for the cached item
      * @param data The value to store (must be serializable)
-     * @param ttlSeconds Optional custom TTL in seconds for this specific item
+     * @param options Options for this specific item
+     * @param options.ttlSeconds Custom TTL in seconds for this item (default: maxItemAgeSeconds)
+     * @param options.staleWhileRevalidateSeconds Time in seconds the item is kept after expiring, to be served stale by getOrLoad (default: 0)
+     * @param options.tags Tags attached to the item, see `invalidateTag`
      * @throws Error if the key is invalid or data cannot be serialized
      */
-    public set<T>(key: string, data: T): void {
+    public set<T>(key: string, data: T, options: MemoryCache.SetOptions = {}): void {
         if (!key || typeof key !== 'string') {
             throw new Error('Cache key must be a non-empty string!');
         }
@@ -108,28 +266,12 @@ export class MemoryCache {
             throw new Error('Data must be non-null!');
         }
 
-        // Calculate size of data object
-        const newSize = this.calculateSize(data);
-        const oldSize = this.store.get(key)?.size;
-
-        // Update size tracking if key already exists
-        if (oldSize) {
-            this.currentCacheSizeBytes -= oldSize;
-            this.store.delete(key); // delete old item and add new one, for LRU
-        }
-        this.currentCacheSizeBytes += newSize;
-
-        // Update item in cache
-        const expireAt = Date.now() + this.maxItemAgeMilliseconds;
-        const clone = structuredClone ? structuredClone(data) : JSON.parse(JSON.stringify(data));
-        this.store.set(key, { data: clone, size: newSize, expireAt });
-
-        // Evict oldest items if cache is over size limit
-        this.evictOldestItems();
+        this.write(key, data, options);
     }
   
     /**
      * Retrieves a value from the cache if it exists and hasn't expired
+     * In 'sliding' mode the expiration of the item is reset on each read
      * @param key The identifier to look up
      * @returns The cached value or null if not found or expired
      */
@@ -138,81 +280,359 @@ export class MemoryCache {
             throw new Error('Cache key must be a non-empty string!');
         }
 
-        const item = this.store.get(key);
+        const item = this.lookup(key);
 
         // Check if item exists
         if (!item) {
+            this.counters.misses++;
             return null;
         }
         
         const now = Date.now();
 
-        // Check if item has expired
-        if (now > item.expireAt) {
-            this.currentCacheSizeBytes -= item.size;        // Update size tracking     
-            this.store.delete(key);                         // Remove item from cache
+        // Check if item has expired (kept in cache while it can still be served stale)
+        if (this.isExpired(item, now)) {
+            if (!this.isStale(item, now)) {
+                this.remove(key, 'expired');
+            }
+            this.counters.misses++;
             return null;
         }
 
-        // Return a clone of the item (avoid mutation of the original object)
-        const clone = structuredClone ? structuredClone(item.data) : JSON.parse(JSON.stringify(item.data));
+        this.counters.hits++;
 
-        // Reset expiration if requested (sliding expiration)
-        const size = item.size;
-        const expireAt = Date.now() + this.maxItemAgeMilliseconds;
+        // Reset expiration only in sliding mode, absolute expiration is fixed at write time
+        if (this.expiration === 'sliding') {
+            item.expireAt = now + item.ttl;
+        }
 
-        // Update item in cache
-        this.store.delete(key);
-        this.store.set(key, { data: clone, size, expireAt });
+        // Move item to the end of the cache, for LRU
+        this.storage.set(key, item);
 
-        // Return a clone of the item (avoid mutation of the original object)
-        return clone as T;
+        // Return the item according to the clone mode (avoid mutation of the original object)
+        return this.readValue(item.data) as T;
     }
     
+    /**
+     * Retrieves a value from the cache without resetting its expiration or moving it in LRU order
+     * Only items held in memory are visible, and hits/misses are not counted.
+     * @param key The identifier to look up
+     * @returns The cached value or null if not found or expired
+     */
+    public peek<T>(key: string): T | null {
+        if (!key || typeof key !== 'string') {
+            throw new Error('Cache key must be a non-empty string!');
+        }
+
+        const item = this.storage.get(key);
+        if (!item || this.isExpired(item, Date.now())) {
+            return null;
+        }
+
+        return this.readValue(item.data) as T;
+    }
+
+    /**
+     * Retrieves several values from the cache, see `get`
+     * @param keys The identifiers to look up
+     * @returns A map of the values found (missing and expired keys are omitted)
+     */
+    public getMany<T>(keys: Iterable<string>): Map<string, T> {
+        const result = new Map<string, T>();
+        for (const key of keys) {
+            const data = this.get<T>(key);
+            if (data !== null) {
+                result.set(key, data);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Stores or updates several values in the cache, see `set`
+     * @param items The key and value pairs to store (e.g. an array of tuples or a Map)
+     * @param options Options applied to every item, see `set`
+     * @throws Error if a key is invalid or a value cannot be stored (the previous items are kept)
+     */
+    public setMany<T>(items: Iterable<[string, T]>, options: MemoryCache.SetOptions = {}): void {
+        for (const [key, data] of items) {
+            this.set(key, data, options);
+        }
+    }
+
+    /**
+     * Removes several items from the cache, see `delete`
+     * @param keys The identifiers of the items to remove
+     * @returns The number of removed items
+     */
+    public deleteMany(keys: Iterable<string>): number {
+        let removed = 0;
+        for (const key of keys) {
+            if (this.delete(key)) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Removes every item whose key starts with the given prefix
+     * Covers the expired items still held in memory (e.g. for stale-while-revalidate) and the spilled items.
+     * @param prefix The prefix of the keys to remove
+     * @returns The number of removed items
+     */
+    public deleteByPrefix(prefix: string): number {
+        if (!prefix || typeof prefix !== 'string') {
+            throw new Error('Cache key prefix must be a non-empty string!');
+        }
+
+        const keys = new Set<string>();
+        for (const [key] of this.storage.entries()) {
+            keys.add(key);
+        }
+        for (const [key] of this.storage.spilled?.() ?? []) {
+            keys.add(key);
+        }
+
+        return this.deleteMany([...keys].filter((key) => key.startsWith(prefix)));
+    }
+
+    /**
+     * Iterates over the keys of the valid items, spilled items first, then the items held in memory
+     * least recently used first. Expired items are skipped, and neither expiration nor LRU order is changed.
+     * @returns An iterator over the keys
+     */
+    public *keys(): IterableIterator<string> {
+        const now = Date.now();
+        for (const [key, info] of this.storage.spilled?.() ?? []) {
+            if (now <= info.expireAt && !this.storage.get(key)) {
+                yield key; // items also held in memory (e.g. after a flush) are listed below
+            }
+        }
+        for (const [key, item] of this.storage.entries()) {
+            if (!this.isExpired(item, now)) {
+                yield key;
+            }
+        }
+    }
+
+    /**
+     * Iterates over the valid items held in memory, least recently used first
+     * Expired items are skipped, and neither expiration nor LRU order is changed. Spilled items are
+     * not read back from disk: they are listed by `keys`, and `get` restores them.
+     * @returns An iterator over the key and value pairs
+     */
+    public *entries<T = any>(): IterableIterator<[string, T]> {
+        const now = Date.now();
+        for (const [key, item] of this.storage.entries()) {
+            if (!this.isExpired(item, now)) {
+                yield [key, this.readValue(item.data) as T];
+            }
+        }
+    }
+
+    /**
+     * Exports the valid items held in memory, least recently used first
+     * The snapshot can be serialized (e.g. with JSON or v8.serialize, depending on the values) and
+     * loaded back with `importSnapshot`. Neither expiration nor LRU order is changed.
+     * @returns The list of items with their remaining TTL and the time of the export
+     */
+    public exportSnapshot(): MemoryCache.SnapshotEntry[] {
+        const now = Date.now();
+        const snapshot: MemoryCache.SnapshotEntry[] = [];
+
+        for (const [key, item] of this.storage.entries()) {
+            if (this.isExpired(item, now)) {
+                continue;
+            }
+            snapshot.push({
+                key,
+                data: this.readValue(item.data),
+                ttlSeconds: item.ttl / 1000,
+                remainingSeconds: (item.expireAt - now) / 1000,
+                staleWhileRevalidateSeconds: item.stale / 1000,
+                ...(item.tags ? { tags: [...item.tags] } : {}),
+                exportedAt: now,
+            });
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Imports items exported by `exportSnapshot`, in order, with their remaining TTL
+     * The time elapsed since the export (e.g. the downtime of a restart) is taken off the remaining TTL.
+     * Items are sized and stored like with `set`, so size limits and LRU eviction apply.
+     * @param snapshot The list of items to import
+     * @param options Options for the import
+     * @param options.overwrite Whether to replace items already in cache (default: false)
+     * @returns The number of imported items (expired and skipped items are not counted)
+     * @throws Error if the snapshot is malformed or an item cannot be stored
+     */
+    public importSnapshot(snapshot: MemoryCache.SnapshotEntry[], options: MemoryCache.ImportOptions = {}): number {
+        if (!Array.isArray(snapshot)) {
+            throw new Error('Cache snapshot must be an array!');
+        }
+
+        const overwrite = options.overwrite ?? false;
+        let imported = 0;
+
+        for (const entry of snapshot) {
+            const { key, data, ttlSeconds, remainingSeconds, staleWhileRevalidateSeconds, tags, exportedAt } = entry;
+
+            if (!key || typeof key !== 'string') {
+                throw new Error('Cache key must be a non-empty string!');
+            }
+            if (data === undefined || data === null) {
+                throw new Error('Data must be non-null!');
+            }
+            const elapsed = typeof exportedAt === 'number' ? Math.max(0, Date.now() - exportedAt) : 0;
+            const remaining = typeof remainingSeconds === 'number' ? remainingSeconds * 1000 - elapsed : 0;
+            if (!(remaining > 0)) {
+                continue; // expired since the export
+            }
+            if (!overwrite && this.has(key)) {
+                continue;
+            }
+
+            const ttl = this.resolveTtl(ttlSeconds);
+            const stale = this.resolveStale(staleWhileRevalidateSeconds);
+            const size = this.calculateSize(data);
+            const expireAt = Date.now() + Math.min(remaining, ttl);
+
+            this.insert(key, { data: this.writeValue(data), size, ttl, stale, expireAt, tags: this.resolveTags(tags) });
+            imported++;
+        }
+
+        return imported;
+    }
+
     /**
      * Checks if an item exists in the cache and hasn't expired
+     * Does not reset the expiration of the item, whatever the expiration mode
      * @param key The identifier to check
      * @returns Boolean indicating if the item exists and is valid
      */
     public has(key: string): boolean {
-        const item = this.store.get(key);
+        const item = this.lookup(key);
 
         // Check if item exists
         if (item) {
-            const isNotExpired = Date.now() < item.expireAt;
-            
+            const now = Date.now();
+
             // If item has not expired, return true
-            if (isNotExpired) {
+            if (!this.isExpired(item, now)) {
                 return true;
             }
 
-            // If item has expired, reset it and return false
-            this.delete(key);
+            // If item has expired (and can't be served stale), reset it and return false
+            if (!this.isStale(item, now)) {
+                this.remove(key, 'expired');
+            }
         }
 
         return false;
     }
   
+    /**
+     * Retrieves a value from the cache, or loads and stores it on a miss (read-through)
+     * Concurrent calls for the same key share a single in-flight load.
+     * If the item has expired but is still within its stale window, the stale value is
+     * returned right away and refreshed in the background (kept as is if the loader throws).
+     * @param key Unique identifier for the cached item
+     * @param loader The function loading the value (can be sync or async)
+     * @param options Options used to store the loaded value, see `set`
+     * @returns The cached, stale or freshly loaded value (null and undefined are returned but never cached,
+     * nor are values that can't be stored, e.g. over the size limit: the error is logged)
+     * @throws Error if the key is invalid or the loader fails without a stale value to fall back on
+     */
+    public async getOrLoad<T>(key: string, loader: MemoryCache.Loader<T>, options: MemoryCache.SetOptions = {}): Promise<T> {
+        const cached = this.get<T>(key);
+        if (cached !== null) {
+            return cached;
+        }
+
+        // Serve the stale value and revalidate it in the background
+        const item = this.storage.get(key);
+        if (item && this.isStale(item, Date.now())) {
+            this.load(key, loader, options).catch((err) => {
+                this.logger?.error(`background refresh error for key "${key}":`, err);
+            });
+            return this.readValue(item.data) as T;
+        }
+
+        return this.load(key, loader, options);
+    }
+  
     /**
      * Removes an item from the cache and updates size tracking
      * @param key The identifier of the item to remove
      * @returns True if the item was found (and removed) and false if not found
      */
     public delete(key: string): boolean {
-        const item = this.store.get(key);
+        return this.remove(key, 'manual');
+    }
 
-        // Check if item exists
-        if (item) {
-            // Update size tracking
-            this.currentCacheSizeBytes -= item.size;
+    /**
+     * Removes every item tagged with the given tag
+     * @param tag The tag given to the items when they were stored
+     * @returns The number of removed items
+     */
+    public invalidateTag(tag: string): number {
+        // Items held in memory are indexed, spilled items carry their tags in the storage index
+        const keys = new Set(this.tags.get(tag));
+        for (const [key, info] of this.storage.spilled?.() ?? []) {
+            if (info.tags?.includes(tag)) {
+                keys.add(key);
+            }
+        }
 
-            // Remove item from cache
-            this.store.delete(key);
-            
-            return true;
+        let removed = 0;
+        for (const key of keys) {
+            if (this.remove(key, 'manual')) {
+                removed++;
+            }
         }
+        this.tags.delete(tag);
 
-        return false;
+        return removed;
+    }
+
+    /**
+     * Removes every item from the cache (including any persistent tier) and resets size tracking
+     * No event is emitted for the removed items.
+     */
+    public clear(): void {
+        this.storage.clear();
+        this.tags.clear();
+        this.currentCacheSizeBytes = 0;
+    }
+
+    /**
+     * Stops the periodic cleanup, drops the in-memory state and removes all listeners
+     * A persistent storage is left untouched (spilled items are kept, and items held in memory
+     * can still be flushed), use `clear` to remove the items for good.
+     * The cache should not be used afterwards. Calling it more than once has no effect.
+     */
+    public dispose(): void {
+        if (this.cleanupTimeout) {
+            clearTimeout(this.cleanupTimeout);
+            this.cleanupTimeout = null;
+        }
+        this.loads.clear();
+        if (!this.storage.spill) {
+            this.storage.clear();
+        }
+        this.tags.clear();
+        this.currentCacheSizeBytes = 0;
+        this.removeAllListeners();
+    }
+
+    /**
+     * Disposes the cache, for use with `await using`
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        this.dispose();
     }
     
     // Private methods
@@ -220,6 +640,7 @@ export class MemoryCache {
     /**
      * Initiates periodic cleanup process
      * Removes expired items and enforces cache size limits
+     * The timer is unref'd so it never keeps the process alive on its own
      */
     private startCleanup(): void {
         const cleanup = () => {
@@ -227,31 +648,314 @@ export class MemoryCache {
             try {
                 let removed = 0;
     
-                // Since the cache is LRU-ordered, expired items will be at the front.
-                for (const [key, item] of this.store.entries()) {
-                    if (now > item.expireAt) {
-                        this.delete(key);
+                // Items can have different TTLs (and reads don't move them in 'absolute' mode),
+                // so LRU order says nothing about expiration: check every item
+                for (const [key, item] of this.storage.entries()) {
+                    if (this.isExpired(item, now) && !this.isStale(item, now)) {
+                        this.remove(key, 'expired');
                         removed++;
-                    } else {
-                        // Stop at the first non-expired item
-                        break;
                     }
                 }
+
+                // Remove unusable items from the persistent tier, if any
+                removed += this.storage.prune?.(now) ?? 0;
     
                 // Log cleanup results if anything was removed
                 if (removed > 0) {
-                    console.info(`[${this.name}] removed ${removed} items from cache.`);
+                    this.logger?.info(`removed ${removed} items from cache.`);
                 }
             } catch (err) {
-                console.error(`[${this.name}] cleanup error:`, err);
+                this.logger?.error('cleanup error:', err);
             } finally {
                 // Schedule next cleanup
-                setTimeout(cleanup, 60_000); // run every minute
+                this.cleanupTimeout = setTimeout(cleanup, this.cleanupIntervalMilliseconds).unref();
             }
         };
     
-        // Start the cleanup cycle
-        cleanup();
+        // Start the cleanup cycle (first run after one interval, the cache is empty anyway)
+        this.cleanupTimeout = setTimeout(cleanup, this.cleanupIntervalMilliseconds).unref();
+    }
+
+    /**
+     * Writes an item to the cache, replacing any previous value for the key
+     * @param key Unique identifier for the cached item
+     * @param data The value to store
+     * @param options Options for this specific item
+     */
+    private write<T>(key: string, data: T, options: MemoryCache.SetOptions): void {
+        const ttl = this.resolveTtl(options.ttlSeconds);
+        const stale = this.resolveStale(options.staleWhileRevalidateSeconds);
+        const tags = this.resolveTags(options.tags);
+
+        // Calculate size of data object
+        const size = this.calculateSize(data);
+
+        // Add item to cache
+        const expireAt = Date.now() + ttl;
+        this.insert(key, { data: this.writeValue(data), size, ttl, stale, expireAt, tags });
+    }
+
+    /**
+     * Prepares a value before storing it, according to the clone mode
+     * @param data The value to store
+     * @returns The value to keep in cache
+     */
+    private writeValue(data: any): any {
+        if (this.clone === 'none') {
+            return data;
+        }
+        const clone = this.cloneValue(data);
+        return this.clone === 'freeze' ? this.deepFreeze(clone) : clone;
+    }
+
+    /**
+     * Prepares a cached value before returning it, according to the clone mode
+     * @param data The value kept in cache
+     * @returns The value to return to the caller
+     */
+    private readValue(data: any): any {
+        if (this.clone !== 'structured') {
+            return data; // frozen or shared as is
+        }
+        return this.cloneValue(data);
+    }
+
+    /**
+     * Clones a value with structuredClone, which turns a Buffer into a plain Uint8Array:
+     * a Buffer value is wrapped back, over the cloned bytes
+     * @param data The value to clone
+     * @returns The cloned value
+     */
+    private cloneValue(data: any): any {
+        const clone = structuredClone ? structuredClone(data) : JSON.parse(JSON.stringify(data));
+        return Buffer.isBuffer(data) ? Buffer.from(clone.buffer, clone.byteOffset, clone.byteLength) : clone;
+    }
+
+    /**
+     * Freezes an object and all the objects it references
+     * Binary values can't be frozen and are left as is, Maps and Sets stay mutable.
+     * @param data The value to freeze
+     * @returns The frozen value
+     */
+    private deepFreeze(data: any): any {
+        if (data === null || typeof data !== 'object' || Object.isFrozen(data) || ArrayBuffer.isView(data)) {
+            return data;
+        }
+        Object.freeze(data);
+        for (const value of Object.values(data)) {
+            this.deepFreeze(value);
+        }
+        return data;
+    }
+
+    /**
+     * Inserts an item as the most recently used one and updates size tracking
+     * @param key Unique identifier for the cached item
+     * @param item The item to insert
+     */
+    private insert(key: string, item: MemoryCache.Entry): void {
+        // Update size tracking (and tags) if key already exists
+        const oldItem = this.storage.get(key);
+        if (oldItem) {
+            this.currentCacheSizeBytes -= oldItem.size;
+            this.unindexTags(key, oldItem.tags);
+        }
+        this.currentCacheSizeBytes += item.size;
+        this.indexTags(key, item.tags);
+
+        // Replace item in storage (moved to the end, for LRU)
+        this.storage.set(key, item);
+        this.emit('set', key, item.size);
+
+        // Evict oldest items if cache is over size limit
+        this.evictOldestItems();
+    }
+
+    /**
+     * Removes an item from the cache, updates size tracking and emits the matching events
+     * @param key The identifier of the item to remove
+     * @param reason Why the item is removed
+     * @returns True if the item was found (and removed) and false if not found
+     */
+    private remove(key: string, reason: MemoryCache.EvictReason): boolean {
+        const item = this.storage.get(key);
+
+        // Update size tracking (and tags) if item is held in memory
+        if (item) {
+            this.currentCacheSizeBytes -= item.size;
+            this.unindexTags(key, item.tags);
+        }
+
+        // Remove item from cache (and from any persistent tier)
+        if (!this.storage.delete(key)) {
+            return false;
+        }
+
+        if (reason === 'expired') {
+            this.counters.expirations++;
+            this.emit('expire', key);
+        } else if (reason === 'manual') {
+            this.emit('delete', key);
+        }
+        this.emit('evict', key, reason);
+
+        return true;
+    }
+
+    /**
+     * Looks up an item, restoring it from the persistent tier of the storage if needed
+     * @param key The identifier to look up
+     * @returns The item, or undefined if not found
+     */
+    private lookup(key: string): MemoryCache.Entry | undefined {
+        const item = this.storage.get(key);
+        if (item || !this.storage.restore) {
+            return item;
+        }
+
+        const restored = this.storage.restore(key);
+        const now = Date.now();
+        if (!restored || (this.isExpired(restored, now) && !this.isStale(restored, now))) {
+            return undefined;
+        }
+
+        // Spilled values are deserialized copies, freeze them again if needed
+        if (this.clone === 'freeze') {
+            this.deepFreeze(restored.data);
+        }
+
+        this.insert(key, restored);
+        return this.storage.get(key);
+    }
+
+    /**
+     * Resolves the TTL of an item from its optional custom TTL
+     * @param ttlSeconds Custom TTL in seconds, if any
+     * @returns The TTL in milliseconds
+     */
+    private resolveTtl(ttlSeconds?: number): number {
+        if (ttlSeconds === undefined) {
+            return this.maxItemAgeMilliseconds;
+        }
+        if (!(ttlSeconds > 0)) {
+            throw new Error('Cache item TTL must be greater than 0 seconds');
+        }
+        return ttlSeconds * 1000;
+    }
+
+    /**
+     * Resolves the stale window of an item from its optional stale-while-revalidate time
+     * @param staleSeconds Stale-while-revalidate time in seconds, if any
+     * @returns The stale window in milliseconds
+     */
+    private resolveStale(staleSeconds?: number): number {
+        if (staleSeconds === undefined) {
+            return 0;
+        }
+        if (!(staleSeconds >= 0)) {
+            throw new Error('Cache item stale time must be a positive number of seconds');
+        }
+        return staleSeconds * 1000;
+    }
+
+    /**
+     * Validates the optional tags of an item
+     * @param tags Tags of the item, if any
+     * @returns The tags, or undefined if none
+     */
+    private resolveTags(tags?: string[]): string[] | undefined {
+        if (tags === undefined || tags.length === 0) {
+            return undefined;
+        }
+        if (!Array.isArray(tags) || tags.some((tag) => !tag || typeof tag !== 'string')) {
+            throw new Error('Cache item tags must be non-empty strings!');
+        }
+        return [...new Set(tags)];
+    }
+
+    /**
+     * Adds a key to the index of each of its tags
+     * @param key Unique identifier for the cached item
+     * @param tags Tags of the item, if any
+     */
+    private indexTags(key: string, tags?: string[]): void {
+        for (const tag of tags ?? []) {
+            let keys = this.tags.get(tag);
+            if (!keys) {
+                keys = new Set();
+                this.tags.set(tag, keys);
+            }
+            keys.add(key);
+        }
+    }
+
+    /**
+     * Removes a key from the index of each of its tags
+     * @param key Unique identifier for the cached item
+     * @param tags Tags of the item, if any
+     */
+    private unindexTags(key: string, tags?: string[]): void {
+        for (const tag of tags ?? []) {
+            const keys = this.tags.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.tags.delete(tag);
+            }
+        }
+    }
+
+    /**
+     * Loads a value and stores it in the cache, sharing the in-flight load between callers
+     * @param key Unique identifier for the cached item
+     * @param loader The function loading the value
+     * @param options Options used to store the loaded value
+     * @returns The promise for the loaded value
+     */
+    private load<T>(key: string, loader: MemoryCache.Loader<T>, options: MemoryCache.SetOptions): Promise<T> {
+        const pending = this.loads.get(key);
+        if (pending) {
+            return pending as Promise<T>;
+        }
+
+        const promise = Promise.resolve()
+            .then(loader)
+            .then((data) => {
+                if (data !== undefined && data !== null) {
+                    try {
+                        this.set(key, data, options);
+                    } catch (err) {
+                        // The callers still get the value, only its caching is lost (e.g. too large)
+                        this.logger?.error(`could not cache the loaded value of key "${key}":`, err);
+                    }
+                }
+                return data;
+            })
+            .finally(() => {
+                this.loads.delete(key);
+            });
+
+        this.loads.set(key, promise);
+        return promise;
+    }
+
+    /**
+     * Checks if an item has expired
+     * @param item The cached item
+     * @param now The current timestamp in milliseconds
+     * @returns True if the item has expired
+     */
+    private isExpired(item: MemoryCache.Entry, now: number): boolean {
+        return now > item.expireAt;
+    }
+
+    /**
+     * Checks if an expired item can still be served stale
+     * @param item The cached item
+     * @param now The current timestamp in milliseconds
+     * @returns True if the item is within its stale window
+     */
+    private isStale(item: MemoryCache.Entry, now: number): boolean {
+        return item.stale > 0 && now <= item.expireAt + item.stale;
     }
 
     /**
@@ -260,12 +964,9 @@ export class MemoryCache {
      * @returns The size of the data object in bytes
      */
     private calculateSize(data: any): number {
-        let size: number;
-        try {
-            const json = JSON.stringify(data);
-            size = Buffer.byteLength(json, 'utf8');
-        } catch (error) {
-            throw new Error(`Failed to serialize data: ${error instanceof Error ? error.message : String(error)}`);
+        const size = this.sizeOf(data);
+        if (!Number.isFinite(size) || size < 0) {
+            throw new Error(`Invalid item size (${size}) returned by sizeOf`);
         }
         if (size > this.maxCacheSizeBytes) {
             throw new Error(`Item size (${size} bytes) exceeds maximum cache size (${this.maxCacheSizeBytes} bytes)`);
@@ -274,18 +975,26 @@ export class MemoryCache {
     }
 
     /**
-     * Evicts oldest items until the cache size is under the maximum allowed size
+     * Evicts oldest items until the cache size and item count are under the maximum allowed
      */
     private evictOldestItems(): void {  
         let removed = 0;
 
-        while (this.currentCacheSizeBytes > this.maxCacheSizeBytes) {
-            // Remove least recently used (first entry)
-            const firstEntry = this.store.entries().next();
+        while (this.currentCacheSizeBytes > this.maxCacheSizeBytes || this.storage.size > this.maxItems) {
+            // Remove least recently used (first entry), spilled to the persistent tier if any
+            const firstEntry = this.storage.entries().next();
             if (!firstEntry.done) {
                 const [lruKey, item] = firstEntry.value;
                 this.currentCacheSizeBytes -= item.size;
-                this.store.delete(lruKey);
+                // Spilled items keep their tags in the storage index, and are indexed again when restored
+                this.unindexTags(lruKey, item.tags);
+                if (this.storage.spill) {
+                    this.storage.spill(lruKey, item);
+                } else {
+                    this.storage.delete(lruKey);
+                }
+                this.counters.evictions++;
+                this.emit('evict', lruKey, 'size');
                 removed++;
             } else {
                 break;
@@ -294,7 +1003,7 @@ export class MemoryCache {
 
         // Log cleanup results if anything was removed
         if (removed > 0) {
-            console.info(`[${this.name}] removed ${removed} items from cache.`);
+            this.logger?.info(`removed ${removed} items from cache.`);
         }
     }
 }
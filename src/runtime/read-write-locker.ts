@@ -0,0 +1,148 @@
+// Types definition
+// ===========================================================
+
+export namespace ReadWriteLocker {
+    export type Mode = 'read' | 'write';
+    export type Options = {
+        maxQueueLength?: number;
+        preferWriters?: boolean;
+    };
+    export type Waiter = {
+        mode: Mode;
+        resolve: () => void;
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Async read/write lock for concurrency control.
+ * Any number of readers can hold the lock at the same time, while a writer holds it alone.
+ * By default waiters are served in arrival order (readers queued behind a writer wait for it);
+ * with `preferWriters`, waiting writers go before any waiting reader, and new readers don't
+ * join the current ones while a writer waits, so writers are never starved by a flow of reads.
+ */
+export class ReadWriteLocker {
+    private readonly maxQueueLength: number;
+    private readonly preferWriters: boolean;
+
+    private readers: number = 0;
+    private writer: boolean = false;
+    private queue: ReadWriteLocker.Waiter[] = [];
+
+    /**
+     * @param options Configuration options
+     * @param options.maxQueueLength Maximum number of waiters allowed in the queue (default: Infinity)
+     * @param options.preferWriters Whether waiting writers go before waiting readers (default: false)
+     */
+    constructor(options: ReadWriteLocker.Options = {}) {
+        this.maxQueueLength = options.maxQueueLength ?? Infinity;
+        this.preferWriters = options.preferWriters ?? false;
+    }
+
+    /**
+     * Acquires the lock shared with other readers, runs the async function, and releases the lock.
+     * @param fn The async function to run while no writer holds the lock.
+     * @param timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @returns The result of the function.
+     * @throws Error if the lock could not be acquired within the timeout or queue is full.
+     */
+    public async withReadLock<T>(fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
+        await this.acquire('read', timeoutMs);
+        try {
+            return await fn();
+        } finally {
+            this.readers--;
+            this.grant();
+        }
+    }
+
+    /**
+     * Acquires the lock exclusively, runs the async function, and releases the lock.
+     * @param fn The async function to run exclusively.
+     * @param timeoutMs Optional timeout in milliseconds to wait for the lock.
+     * @returns The result of the function.
+     * @throws Error if the lock could not be acquired within the timeout or queue is full.
+     */
+    public async withWriteLock<T>(fn: () => T | Promise<T>, timeoutMs?: number): Promise<T> {
+        await this.acquire('write', timeoutMs);
+        try {
+            return await fn();
+        } finally {
+            this.writer = false;
+            this.grant();
+        }
+    }
+
+    // Private methods
+
+    /**
+     * Internal: Waits until the lock is available in the given mode, or throws on timeout/queue overflow.
+     */
+    private acquire(mode: ReadWriteLocker.Mode, timeoutMs?: number): Promise<void> {
+        if (this.queue.length >= this.maxQueueLength) {
+            return Promise.reject(new Error('ReadWriteLocker queue limit reached'));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const waiter: ReadWriteLocker.Waiter = {
+                mode,
+                resolve: () => {
+                    if (timer) clearTimeout(timer);
+                    resolve();
+                },
+            };
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => {
+                    this.queue.splice(this.queue.indexOf(waiter), 1);
+                    reject(new Error('ReadWriteLocker acquire timeout'));
+                    this.grant(); // readers queued behind a writer that gave up may go
+                }, timeoutMs);
+            }
+            this.queue.push(waiter);
+            this.grant();
+        });
+    }
+
+    /**
+     * Internal: Gives the lock to the next waiters, as long as their mode is compatible with the holders.
+     */
+    private grant(): void {
+        while (true) {
+            const index = this.nextWaiter();
+            const waiter = this.queue[index];
+            if (!waiter) {
+                return;
+            }
+
+            if (waiter.mode === 'write') {
+                if (this.writer || this.readers > 0) {
+                    return;
+                }
+                this.writer = true;
+            } else {
+                if (this.writer) {
+                    return;
+                }
+                this.readers++;
+            }
+            this.queue.splice(index, 1);
+            waiter.resolve();
+        }
+    }
+
+    /**
+     * Internal: Returns the index of the next waiter to serve (-1 if none).
+     */
+    private nextWaiter(): number {
+        if (this.preferWriters) {
+            const writer = this.queue.findIndex((waiter) => waiter.mode === 'write');
+            if (writer !== -1) {
+                return writer;
+            }
+        }
+        return this.queue.length > 0 ? 0 : -1;
+    }
+}
@@ -0,0 +1,121 @@
+// Types definition
+// ===========================================================
+
+export namespace Semaphore {
+    export type Waiter = {
+        weight: number;
+        resolve: () => void;
+    };
+}
+
+// Class definition
+// ===========================================================
+
+/**
+ * Async counting semaphore for concurrency control.
+ * Allows at most `permits` units of work to run at the same time, each operation taking
+ * as many permits as its weight. Waiters are served in order: a heavy operation at the head
+ * of the queue is not overtaken by lighter ones, so it can't be starved.
+ */
+export class Semaphore {
+    private readonly permits: number;
+    private readonly maxQueueLength: number;
+
+    private available: number;
+    private queue: Semaphore.Waiter[] = [];
+
+    /**
+     * @param permits Number of permits, i.e. the maximum total weight running at once.
+     * @param maxQueueLength Maximum number of waiters allowed in the queue (default: Infinity)
+     * @throws Error if permits is not a positive integer.
+     */
+    constructor(permits: number, maxQueueLength: number = Infinity) {
+        if (!Number.isInteger(permits) || permits < 1) {
+            throw new Error('Semaphore permits must be a positive integer');
+        }
+        this.permits = permits;
+        this.maxQueueLength = maxQueueLength;
+        this.available = permits;
+    }
+
+    /**
+     * Acquires permits, runs the async function, and releases the permits.
+     * @param fn The async function to run.
+     * @param weight Number of permits the function takes (default: 1)
+     * @param timeoutMs Optional timeout in milliseconds to wait for the permits.
+     * @returns The result of the function.
+     * @throws Error if the weight exceeds the permits, the permits could not be acquired within the timeout or queue is full.
+     */
+    public async withPermit<T>(fn: () => T | Promise<T>, weight: number = 1, timeoutMs?: number): Promise<T> {
+        await this.acquire(weight, timeoutMs);
+        try {
+            return await fn();
+        } finally {
+            this.release(weight);
+        }
+    }
+
+    /**
+     * Returns the number of permits currently available.
+     * @returns The number of available permits
+     */
+    public availablePermits(): number {
+        return this.available;
+    }
+
+    // Private methods
+
+    /**
+     * Internal: Waits until enough permits are available, or throws on timeout/queue overflow.
+     */
+    private acquire(weight: number, timeoutMs?: number): Promise<void> {
+        if (!Number.isInteger(weight) || weight < 1 || weight > this.permits) {
+            return Promise.reject(new Error(`Semaphore weight must be an integer between 1 and ${this.permits}`));
+        }
+        if (this.queue.length === 0 && this.available >= weight) {
+            this.available -= weight;
+            return Promise.resolve();
+        }
+        if (this.queue.length >= this.maxQueueLength) {
+            return Promise.reject(new Error('Semaphore queue limit reached'));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const waiter: Semaphore.Waiter = {
+                weight,
+                resolve: () => {
+                    if (timer) clearTimeout(timer);
+                    resolve();
+                },
+            };
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => {
+                    this.queue.splice(this.queue.indexOf(waiter), 1);
+                    reject(new Error('Semaphore acquire timeout'));
+                    this.grant(); // the next waiter may fit the available permits
+                }, timeoutMs);
+            }
+            this.queue.push(waiter);
+        });
+    }
+
+    /**
+     * Internal: Releases permits and wakes up the waiters they are enough for.
+     */
+    private release(weight: number): void {
+        this.available += weight;
+        this.grant();
+    }
+
+    /**
+     * Internal: Gives the available permits to the waiters, in order.
+     */
+    private grant(): void {
+        while (this.queue.length > 0 && this.available >= this.queue[0]!.weight) {
+            const waiter = this.queue.shift()!;
+            this.available -= waiter.weight;
+            waiter.resolve();
+        }
+    }
+}
@@ -0,0 +1,16 @@
+// Functions definition
+// ===========================================================
+
+/**
+ * Checks whether a process of this machine is still running
+ * @param pid The process identifier
+ * @returns True if the process exists (even if owned by another user)
+ */
+export function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
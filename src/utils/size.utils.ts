@@ -0,0 +1,79 @@
+// Types definition
+// ===========================================================
+
+export type SizeOf = (data: any) => number;
+
+// Functions definition
+// ===========================================================
+
+/**
+ * Returns the size of a string encoded in UTF-8
+ * @param value The string to measure
+ * @returns The size in bytes
+ */
+export function stringSize(value: string): number {
+    return Buffer.byteLength(value, 'utf8');
+}
+
+/**
+ * Returns the size of a Buffer, typed array, DataView or ArrayBuffer
+ * @param value The binary value to measure
+ * @returns The size in bytes
+ */
+export function binarySize(value: ArrayBufferView | ArrayBufferLike): number {
+    return value.byteLength;
+}
+
+/**
+ * Returns the size of a value serialized to JSON
+ * BigInts are serialized as strings, Maps and Sets as arrays, binary values count for their byte length.
+ * @param value The value to measure
+ * @returns The size in bytes
+ * @throws Error if the value cannot be serialized
+ */
+export function jsonSize(value: any): number {
+    let binaryBytes = 0;
+
+    // Reads the raw value from the holder, as Buffers are already converted by their toJSON method
+    const replacer = function (this: any, key: string, current: any): any {
+        const raw = this[key];
+        if (ArrayBuffer.isView(raw) || raw instanceof ArrayBuffer || raw instanceof SharedArrayBuffer) {
+            binaryBytes += binarySize(raw);
+            return null;
+        }
+        if (typeof current === 'bigint') {
+            return current.toString();
+        }
+        if (current instanceof Map) {
+            return [...current.entries()];
+        }
+        if (current instanceof Set) {
+            return [...current.values()];
+        }
+        return current;
+    };
+
+    let json: string | undefined;
+    try {
+        json = JSON.stringify(value, replacer);
+    } catch (error) {
+        throw new Error(`Failed to serialize data: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return (json === undefined ? 0 : stringSize(json)) + binaryBytes;
+}
+
+/**
+ * Estimates the size of a value, using the cheapest estimator for its type
+ * Strings and binary values are measured directly, anything else is measured as JSON.
+ * @param value The value to measure
+ * @returns The estimated size in bytes
+ */
+export function estimateSize(value: any): number {
+    if (typeof value === 'string') {
+        return stringSize(value);
+    }
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer || value instanceof SharedArrayBuffer) {
+        return binarySize(value);
+    }
+    return jsonSize(value);
+}
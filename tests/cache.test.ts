@@ -0,0 +1,377 @@
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCache } from '../src/runtime/memory-cache';
+import { FileStorage } from '../src/runtime/cache-storage';
+import { runProcess } from './helpers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('MemoryCache', () => {
+    test('items expire after their own TTL', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItemAgeSeconds: 60 });
+        cache.set('short', 1, { ttlSeconds: 0.05 });
+        cache.set('default', 2);
+        await sleep(80);
+
+        assert.equal(cache.get('short'), null);
+        assert.equal(cache.get('default'), 2);
+        cache.dispose();
+    });
+
+    test('sliding expiration extends the TTL on reads, absolute expiration does not', async () => {
+        const sliding = new MemoryCache({ name: 'CacheTest', logger: null });
+        const absolute = new MemoryCache({ name: 'CacheTest', logger: null, expiration: 'absolute' });
+        for (const cache of [sliding, absolute]) {
+            cache.set('key', 1, { ttlSeconds: 0.15 });
+        }
+        for (let i = 0; i < 3; i++) {
+            await sleep(70);
+            sliding.get('key');
+            absolute.get('key');
+        }
+
+        assert.equal(sliding.get('key'), 1);
+        assert.equal(absolute.get('key'), null);
+        sliding.dispose();
+        absolute.dispose();
+    });
+
+    test('structured cloning keeps Buffers as Buffers', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        const buffer = Buffer.from('hello');
+        cache.set('buffer', buffer);
+
+        const value = cache.get('buffer');
+        assert.ok(Buffer.isBuffer(value));
+        assert.equal(String(value), 'hello');
+        assert.notEqual(value, buffer);
+        cache.dispose();
+    });
+
+    test('getOrLoad returns the loaded value even if it cannot be cached', async () => {
+        const errors: unknown[] = [];
+        const logger = { info: () => undefined, error: (...args: unknown[]) => errors.push(args) };
+        const cache = new MemoryCache({ name: 'CacheTest', logger, maxCacheSizeMB: 0.001 });
+        const large = 'x'.repeat(10_000);
+
+        assert.equal(await cache.getOrLoad('large', () => large), large);
+        assert.equal(cache.has('large'), false);
+        assert.equal(errors.length, 1);
+        cache.dispose();
+    });
+
+    test('concurrent getOrLoad calls share a single load', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        let loads = 0;
+        const loader = async () => {
+            loads++;
+            await sleep(20);
+            return 'value';
+        };
+
+        const values = await Promise.all([cache.getOrLoad('key', loader), cache.getOrLoad('key', loader)]);
+        assert.deepEqual(values, ['value', 'value']);
+        assert.equal(loads, 1);
+        assert.equal(await cache.getOrLoad('key', loader), 'value');
+        assert.equal(loads, 1);
+        cache.dispose();
+    });
+
+    test('getOrLoad serves a stale value while refreshing it in the background', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        const options = { ttlSeconds: 0.05, staleWhileRevalidateSeconds: 60 };
+        cache.set('key', 'old', options);
+        await sleep(80);
+
+        assert.equal(await cache.getOrLoad('key', async () => 'new', options), 'old');
+        await sleep(10);
+        assert.equal(cache.get('key'), 'new');
+        cache.dispose();
+    });
+
+    test('getOrLoad keeps the stale value when the refresh fails', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        const options = { ttlSeconds: 0.05, staleWhileRevalidateSeconds: 60 };
+        cache.set('key', 'old', options);
+        await sleep(80);
+
+        const failing = () => Promise.reject(new Error('down'));
+        assert.equal(await cache.getOrLoad('key', failing, options), 'old');
+        await sleep(10);
+        assert.equal(await cache.getOrLoad('key', failing, options), 'old');
+        await assert.rejects(cache.getOrLoad('other', failing), /down/);
+        cache.dispose();
+    });
+
+    test('emits events for writes, evictions, expirations and deletions', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItems: 1 });
+        const events: string[] = [];
+        cache.on('set', (key) => events.push(`set ${key}`));
+        cache.on('evict', (key, reason) => events.push(`evict ${key} ${reason}`));
+        cache.on('expire', (key) => events.push(`expire ${key}`));
+        cache.on('delete', (key) => events.push(`delete ${key}`));
+
+        cache.set('a', 1);
+        cache.set('b', 2, { ttlSeconds: 0.05 });
+        await sleep(80);
+        cache.get('b');
+        cache.set('c', 3);
+        cache.delete('c');
+
+        assert.deepEqual(events, [
+            'set a', 'set b', 'evict a size',
+            'expire b', 'evict b expired',
+            'set c', 'delete c', 'evict c manual',
+        ]);
+        cache.dispose();
+    });
+
+    test('counts hits, misses, evictions and expirations', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItems: 1 });
+        cache.set('a', 1);
+        cache.get('a');
+        cache.get('missing');
+        cache.set('b', 2);
+
+        const stats = cache.stats();
+        assert.equal(stats.hits, 1);
+        assert.equal(stats.misses, 1);
+        assert.equal(stats.hitRatio, 0.5);
+        assert.equal(stats.evictions, 1);
+        assert.equal(stats.entries, 1);
+        assert.ok(stats.bytes > 0);
+        cache.dispose();
+    });
+
+    test('invalidateTag removes every item with the tag', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.set('user:1:orders', 1, { tags: ['user:1'] });
+        cache.set('user:1:profile', 2, { tags: ['user:1', 'profiles'] });
+        cache.set('user:2:profile', 3, { tags: ['profiles'] });
+
+        assert.equal(cache.invalidateTag('user:1'), 2);
+        assert.deepEqual([...cache.keys()], ['user:2:profile']);
+        assert.equal(cache.invalidateTag('user:1'), 0);
+        cache.dispose();
+    });
+
+    test('clear removes every item, dispose stops the cache', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.set('a', 1, { tags: ['tag'] });
+        cache.clear();
+
+        assert.equal(cache.currentSize(), 0);
+        assert.equal(cache.currentUsage(), 0);
+        assert.equal(cache.invalidateTag('tag'), 0);
+        cache.on('set', () => undefined);
+        cache.dispose();
+        assert.equal(cache.listenerCount('set'), 0);
+    });
+
+    test('the cleanup timer does not keep the process alive', async () => {
+        const script = `
+            const { MemoryCache } = require('./src/runtime/memory-cache');
+            new MemoryCache({ name: 'CacheTest', logger: null, cleanupIntervalSeconds: 3600 }).set('a', 1);
+            console.log('created');
+        `;
+        assert.deepEqual(await runProcess(script), ['created']);
+    });
+
+    test('clone modes protect the cached values from mutation', () => {
+        const structured = new MemoryCache({ name: 'CacheTest', logger: null });
+        const frozen = new MemoryCache({ name: 'CacheTest', logger: null, clone: 'freeze' });
+        const shared = new MemoryCache({ name: 'CacheTest', logger: null, clone: 'none' });
+        const value = { nested: { count: 1 } };
+        for (const cache of [structured, frozen, shared]) {
+            cache.set('key', value);
+        }
+        value.nested.count = 2;
+
+        const read = structured.get<typeof value>('key')!;
+        read.nested.count = 3;
+        assert.equal(structured.get<typeof value>('key')!.nested.count, 1);
+
+        assert.ok(Object.isFrozen(frozen.get<typeof value>('key')!.nested));
+        assert.equal(frozen.get('key'), frozen.get('key'));
+        assert.equal(frozen.get<typeof value>('key')!.nested.count, 1);
+
+        assert.equal(shared.get('key'), value);
+        for (const cache of [structured, frozen, shared]) {
+            cache.dispose();
+        }
+    });
+
+    test('sizes are measured with sizeOf, and maxItems caps the number of items', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItems: 2, sizeOf: () => 100 });
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.set('c', 3);
+
+        assert.deepEqual([...cache.keys()], ['b', 'c']);
+        assert.equal(cache.stats().bytes, 200);
+        cache.dispose();
+    });
+
+    test('bulk operations', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.setMany([['user:1', 1], ['user:2', 2], ['order:1', 3]], { tags: ['bulk'] });
+
+        assert.deepEqual(cache.getMany(['user:1', 'missing', 'order:1']), new Map([['user:1', 1], ['order:1', 3]]));
+        assert.equal(cache.deleteMany(['order:1', 'missing']), 1);
+        assert.equal(cache.deleteByPrefix('user:'), 2);
+        assert.equal(cache.currentSize(), 0);
+        cache.dispose();
+    });
+
+    test('iteration and peek change neither the LRU order nor the statistics', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItems: 2 });
+        cache.set('a', 1);
+        cache.set('b', 2);
+
+        assert.deepEqual([...cache.entries()], [['a', 1], ['b', 2]]);
+        assert.equal(cache.peek('a'), 1);
+        cache.set('c', 3); // evicts the least recently used item, still 'a'
+
+        assert.deepEqual([...cache.keys()], ['b', 'c']);
+        assert.equal(cache.stats().hits, 0);
+        cache.dispose();
+    });
+
+    test('deleteByPrefix removes the expired items kept for stale-while-revalidate', async () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.set('user:1', 1, { ttlSeconds: 0.05, staleWhileRevalidateSeconds: 60 });
+        cache.set('order:1', 2);
+        await sleep(80);
+
+        assert.equal(cache.deleteByPrefix('user:'), 1);
+        assert.equal(await cache.getOrLoad('user:1', () => 'reloaded'), 'reloaded');
+        assert.equal(cache.get('order:1'), 2);
+        cache.dispose();
+    });
+
+    test('snapshots restore the items with their remaining TTL and tags', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.set('a', { id: 1 }, { ttlSeconds: 30, tags: ['users'] });
+        cache.set('b', 2);
+        const restored = new MemoryCache({ name: 'CacheTest', logger: null });
+        restored.set('b', 'kept');
+
+        assert.equal(restored.importSnapshot(JSON.parse(JSON.stringify(cache.exportSnapshot()))), 1);
+        assert.deepEqual(restored.get('a'), { id: 1 });
+        assert.equal(restored.get('b'), 'kept');
+        assert.ok(restored.exportSnapshot().find((entry) => entry.key === 'a')!.remainingSeconds <= 30);
+        assert.equal(restored.invalidateTag('users'), 1);
+
+        assert.equal(restored.importSnapshot(cache.exportSnapshot(), { overwrite: true }), 2);
+        assert.equal(restored.get('b'), 2);
+        cache.dispose();
+        restored.dispose();
+    });
+
+    test('snapshots account for the time elapsed since the export', () => {
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null });
+        cache.set('short', 1, { ttlSeconds: 2 });
+        cache.set('long', 2, { ttlSeconds: 10 });
+
+        // Simulates a restart of 3 seconds between the export and the import
+        const snapshot = cache.exportSnapshot().map((entry) => ({ ...entry, exportedAt: entry.exportedAt! - 3_000 }));
+        const restored = new MemoryCache({ name: 'CacheTest', logger: null });
+
+        assert.equal(restored.importSnapshot(snapshot), 1);
+        assert.equal(restored.has('short'), false);
+        assert.ok(restored.exportSnapshot()[0]!.remainingSeconds <= 7);
+        cache.dispose();
+        restored.dispose();
+    });
+});
+
+describe('MemoryCache with a FileStorage', () => {
+    let directory: string;
+    const createCache = () => new MemoryCache({
+        name: 'CacheTest',
+        logger: null,
+        maxItems: 1, // every other item is spilled to disk
+        storage: new FileStorage({ directory }),
+    });
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'ytoolkit-cache-'));
+    });
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('keys lists the spilled items', () => {
+        const cache = createCache();
+        cache.set('a', 1);
+        cache.set('b', 2);
+
+        assert.deepEqual([...cache.keys()], ['a', 'b']);
+        assert.deepEqual([...cache.entries()], [['b', 2]]);
+        cache.dispose();
+    });
+
+    test('evicted items are spilled to disk and restored on access', () => {
+        const cache = createCache();
+        cache.set('a', { id: 1 });
+        cache.set('b', { id: 2 });
+
+        assert.equal(cache.currentSize(), 1);
+        assert.deepEqual(cache.get('a'), { id: 1 });
+        assert.deepEqual(cache.get('b'), { id: 2 }); // spilled in turn, restored again
+        cache.dispose();
+    });
+
+    test('spilled and flushed items survive a restart', () => {
+        const storage = new FileStorage({ directory });
+        const cache = new MemoryCache({ name: 'CacheTest', logger: null, maxItems: 1, storage });
+        cache.set('spilled', 1);
+        cache.set('flushed', 2);
+        storage.flush();
+        cache.dispose();
+
+        const restarted = createCache();
+        assert.equal(restarted.get('spilled'), 1);
+        assert.equal(restarted.get('flushed'), 2);
+        restarted.dispose();
+    });
+
+    test('dispose keeps the spilled items, which are restored and invalidated after a restart', () => {
+        const cache = createCache();
+        cache.set('a', 1, { tags: ['users'] });
+        cache.set('b', 2);
+        cache.dispose();
+        assert.equal(readdirSync(directory).length, 1);
+
+        const restarted = createCache();
+        assert.equal(restarted.invalidateTag('users'), 1);
+        assert.equal(restarted.get('a'), null);
+        restarted.dispose();
+    });
+
+    test('a spilled item that is deleted loses its tags', () => {
+        const cache = createCache();
+        cache.set('a', 1, { tags: ['users'] });
+        cache.set('b', 2);
+        cache.delete('a');
+        cache.set('a', 3); // untagged this time
+        cache.set('c', 4);
+
+        assert.equal(cache.invalidateTag('users'), 0);
+        assert.equal(cache.get('a'), 3);
+        cache.dispose();
+    });
+
+    test('deleteByPrefix removes the spilled items', () => {
+        const cache = createCache();
+        cache.set('user:1', 1);
+        cache.set('order:1', 2);
+
+        assert.equal(cache.deleteByPrefix('user:'), 1);
+        assert.equal(cache.get('user:1'), null);
+        cache.dispose();
+    });
+});
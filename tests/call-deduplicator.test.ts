@@ -0,0 +1,257 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiCallDeduplicator, DedupClearedError, DedupTimeoutError } from '../src/api/call-deduplicator';
+import { MemoryCache } from '../src/runtime/memory-cache';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ApiCallDeduplicator', () => {
+    test('concurrent requests with the same key share one call', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        let executions = 0;
+        const task = async () => {
+            executions++;
+            await sleep(20);
+            return 'value';
+        };
+
+        const results = await Promise.all([deduplicator.request('key', task), deduplicator.request('key', task)]);
+        assert.deepEqual(results, ['value', 'value']);
+        assert.equal(executions, 1);
+        assert.equal(deduplicator.isRequestInProgress('key'), false);
+    });
+
+    test('a resolved value is reused for cacheMs after the call ended', async () => {
+        const deduplicator = new ApiCallDeduplicator({ cacheMs: 100 });
+        let executions = 0;
+        const task = () => ++executions;
+
+        assert.equal(await deduplicator.request('key', task), 1);
+        assert.equal(await deduplicator.request('key', task), 1);
+        assert.equal(await deduplicator.request('key', task, { cacheMs: 0 }), 1); // only applies to the value of this call
+        await sleep(150);
+        assert.equal(await deduplicator.request('key', task), 2);
+    });
+
+    test('rejections are only reused with errorCacheMs', async () => {
+        const task = () => Promise.reject(new Error('upstream down'));
+
+        const uncached = new ApiCallDeduplicator({ cacheMs: 1_000 });
+        let executions = 0;
+        const counted = () => {
+            executions++;
+            return task();
+        };
+        await assert.rejects(uncached.request('key', counted), /upstream down/);
+        await assert.rejects(uncached.request('key', counted), /upstream down/);
+        assert.equal(executions, 2);
+
+        const cached = new ApiCallDeduplicator({ errorCacheMs: 100 });
+        executions = 0;
+        await assert.rejects(cached.request('key', counted), /upstream down/);
+        await assert.rejects(cached.request('key', counted), /upstream down/);
+        assert.equal(executions, 1);
+        await sleep(150);
+        await assert.rejects(cached.request('key', counted), /upstream down/);
+        assert.equal(executions, 2);
+    });
+
+    test('results are reused from the cache for cacheMs, without extending it', async () => {
+        const cache = new MemoryCache({ name: 'DedupTest', logger: null });
+        const deduplicator = new ApiCallDeduplicator({ cache, cacheMs: 200 });
+        let executions = 0;
+        const task = () => ++executions;
+
+        assert.equal(await deduplicator.request('key', task), 1);
+        for (let i = 0; i < 3; i++) {
+            await sleep(80);
+            await deduplicator.request('key', task);
+        }
+        assert.equal(executions, 2); // expired after 200 ms, whatever the reads
+        cache.dispose();
+    });
+
+    test('callers settle even when the cache rejects the value', async () => {
+        const cache = new MemoryCache({ name: 'DedupTest', logger: null, clone: 'structured' });
+        const deduplicator = new ApiCallDeduplicator({ cache, cacheMs: 1_000 });
+        const value = { fn: () => undefined }; // can't be cloned
+
+        assert.equal(await deduplicator.request('key', () => value), value);
+        assert.equal(deduplicator.isRequestInProgress('key'), false);
+        cache.dispose();
+    });
+
+    test('keys tell apart URLs, buffers and class instances', () => {
+        const deduplicator = new ApiCallDeduplicator();
+        class Point {
+            constructor(private readonly x: number) {}
+            toJSON() { return { x: this.x }; }
+        }
+
+        assert.notEqual(deduplicator.createKey(new URL('https://a.dev/x')), deduplicator.createKey(new URL('https://a.dev/y')));
+        assert.notEqual(deduplicator.createKey(new Uint8Array([1]).buffer), deduplicator.createKey(new Uint8Array([2]).buffer));
+        assert.notEqual(deduplicator.createKey(/a/), deduplicator.createKey(/b/));
+        assert.notEqual(deduplicator.createKey(new Point(1)), deduplicator.createKey(new Point(2)));
+        assert.throws(() => deduplicator.createKey(new (class Opaque {})()), /without toJSON/);
+    });
+
+    test('keys are case-sensitive, collision-safe and independent of the key order', () => {
+        const deduplicator = new ApiCallDeduplicator();
+
+        assert.notEqual(deduplicator.createKey('a_b', 'c'), deduplicator.createKey('a', 'b_c'));
+        assert.notEqual(deduplicator.createKey('AbC'), deduplicator.createKey('abc'));
+        assert.notEqual(deduplicator.createKey(1), deduplicator.createKey('1'));
+        assert.equal(deduplicator.createKey({ a: 1, b: [2, { c: 3 }] }), deduplicator.createKey({ b: [2, { c: 3 }], a: 1 }));
+        assert.equal(deduplicator.createKey(new Set([1, 2])), deduplicator.createKey(new Set([2, 1])));
+
+        const circular: { self?: unknown } = {};
+        circular.self = circular;
+        assert.throws(() => deduplicator.createKey(circular), /circular/);
+    });
+
+    test('keys can be prefixed with a namespace and hashed to a fixed length', () => {
+        const deduplicator = new ApiCallDeduplicator({ namespace: 'users', hashKeys: true });
+        const short = deduplicator.createKey('a');
+        const long = deduplicator.createKey('a'.repeat(1_000), { nested: [1, 2, 3] });
+
+        assert.ok(short.startsWith('users:'));
+        assert.equal(short.length, long.length);
+        assert.notEqual(short, long);
+        assert.equal(deduplicator.createKey('a'), short);
+    });
+
+    test('a caller leaving only detaches itself, the task is aborted once every caller left', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        let taskSignal: AbortSignal | undefined;
+        const task = (signal: AbortSignal) => {
+            taskSignal = signal;
+            return new Promise<string>((resolve) => setTimeout(() => resolve('value'), 100));
+        };
+        const first = new AbortController();
+        const second = new AbortController();
+
+        const firstCall = deduplicator.request('key', task, { signal: first.signal });
+        const secondCall = deduplicator.request('key', task, { signal: second.signal });
+        first.abort(new Error('first left'));
+        await assert.rejects(firstCall, /first left/);
+        assert.equal(taskSignal!.aborted, false);
+        assert.equal(deduplicator.isRequestInProgress('key'), true);
+
+        second.abort(new Error('second left'));
+        await assert.rejects(secondCall, /second left/);
+        assert.equal(taskSignal!.aborted, true);
+        assert.equal(deduplicator.isRequestInProgress('key'), false);
+    });
+
+    test('a caller without a signal keeps the task running', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        let taskSignal: AbortSignal | undefined;
+        const task = (signal: AbortSignal) => {
+            taskSignal = signal;
+            return new Promise<string>((resolve) => setTimeout(() => resolve('value'), 50));
+        };
+        const controller = new AbortController();
+
+        const leaving = deduplicator.request('key', task, { signal: controller.signal });
+        const staying = deduplicator.request('key', task);
+        controller.abort(new Error('left'));
+
+        await assert.rejects(leaving, /left/);
+        assert.equal(await staying, 'value');
+        assert.equal(taskSignal!.aborted, false);
+    });
+
+    test('the task is aborted on timeout and when the requests are cleared', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        const signals: AbortSignal[] = [];
+        const task = (signal: AbortSignal) => {
+            signals.push(signal);
+            return new Promise<never>(() => undefined);
+        };
+
+        await assert.rejects(deduplicator.request('slow', task, { timeout: 20 }), /timed out/);
+        const cleared = deduplicator.request('other', task);
+        deduplicator.clearAllRequests('shutting down');
+        await assert.rejects(cleared, /shutting down/);
+
+        assert.deepEqual(signals.map((signal) => signal.aborted), [true, true]);
+    });
+
+    test('an aborted signal rejects the request without running the task', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        let executions = 0;
+
+        await assert.rejects(deduplicator.request('key', () => ++executions, { signal: AbortSignal.abort(new Error('too late')) }), /too late/);
+        assert.equal(executions, 0);
+    });
+
+    test('timeouts and clears reject with typed errors carrying the key', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        const task = () => new Promise<never>(() => undefined);
+
+        await assert.rejects(deduplicator.request('slow', task, { timeout: 20 }), (err) => {
+            assert.ok(err instanceof DedupTimeoutError);
+            assert.equal(err.key, 'slow');
+            assert.equal(err.timeoutMs, 20);
+            return true;
+        });
+
+        const cleared = deduplicator.request('other', task);
+        deduplicator.clearAllRequests('shutting down');
+        await assert.rejects(cleared, (err) => {
+            assert.ok(err instanceof DedupClearedError);
+            assert.equal(err.key, 'other');
+            assert.equal(err.message, 'shutting down');
+            return true;
+        });
+    });
+
+    test('stats count the collapsed, cached, timed out and cleared requests', async () => {
+        const deduplicator = new ApiCallDeduplicator({ cacheMs: 1_000 });
+        const task = () => new Promise<string>((resolve) => setTimeout(() => resolve('value'), 20));
+        const never = () => new Promise<never>(() => undefined);
+
+        await Promise.all([deduplicator.request('a', task), deduplicator.request('a', task), deduplicator.request('a', task)]);
+        await deduplicator.request('a', task);
+        await assert.rejects(deduplicator.request('b', never, { timeout: 10 }));
+        const cleared = deduplicator.request('c', never);
+        assert.equal(deduplicator.stats().inFlight, 1);
+        deduplicator.clearAllRequests('done');
+        await assert.rejects(cleared);
+
+        assert.deepEqual(deduplicator.stats(), {
+            requests: 6,
+            executed: 3,
+            collapsed: 2,
+            cacheHits: 1,
+            inFlight: 0,
+            timedOut: 1,
+            cleared: 1,
+        });
+    });
+
+    test('inFlight lists the calls in progress with their waiters', async () => {
+        const deduplicator = new ApiCallDeduplicator();
+        const task = () => new Promise<string>((resolve) => setTimeout(() => resolve('value'), 20));
+        const before = Date.now();
+
+        const calls = [deduplicator.request('a', task), deduplicator.request('a', task), deduplicator.request('b', task)];
+        const info = deduplicator.inFlight();
+        assert.deepEqual(info.map(({ key, waiters }) => ({ key, waiters })), [{ key: 'a', waiters: 2 }, { key: 'b', waiters: 1 }]);
+        assert.ok(info.every(({ startedAt }) => startedAt >= before && startedAt <= Date.now()));
+
+        await Promise.all(calls);
+        assert.deepEqual(deduplicator.inFlight(), []);
+    });
+
+    test('forget drops a kept result, so the next request runs the task again', async () => {
+        const deduplicator = new ApiCallDeduplicator({ cacheMs: 1_000 });
+        let executions = 0;
+        const task = () => ++executions;
+
+        await deduplicator.request('key', task);
+        assert.equal(deduplicator.forget('key'), true);
+        assert.equal(deduplicator.forget('key'), false);
+        assert.equal(await deduplicator.request('key', task), 2);
+    });
+});
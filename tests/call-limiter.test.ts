@@ -0,0 +1,233 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiCallLimiter, LimiterQueueFullError, parseRetryAfter } from '../src/api/call-limiter';
+import { runProcess } from './helpers';
+
+/**
+ * Schedules the requests all at once, and returns the time each one got its slot, in dispatch order
+ */
+async function dispatchTimes(limiter: ApiCallLimiter, count: number): Promise<number[]> {
+    const start = Date.now();
+    const times: number[] = [];
+    await Promise.all(Array.from({ length: count }, () => limiter.schedule(() => {
+        times.push(Date.now() - start);
+    })));
+    return times;
+}
+
+describe('ApiCallLimiter', () => {
+    test('token bucket: the burst goes at once, then one request per refill interval', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 10, burst: 2 });
+        const times = await dispatchTimes(limiter, 4);
+
+        assert.ok(times[1]! < 50, `burst dispatched at ${times[1]} ms`);
+        assert.ok(times[2]! >= 90 && times[2]! < 250, `3rd request dispatched at ${times[2]} ms`);
+        assert.ok(times[3]! >= 190 && times[3]! < 350, `4th request dispatched at ${times[3]} ms`);
+    });
+
+    test('a slot that is never released is reclaimed after releaseTimeoutMs', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1, releaseTimeoutMs: 100 });
+        const reclaims: number[] = [];
+        limiter.on('reclaim', (durationMs) => reclaims.push(durationMs));
+        await limiter.requestSlot(); // never released
+
+        const release = await limiter.requestSlot({ timeoutMs: 1_000 });
+        assert.equal(limiter.metrics().reclaims, 1);
+        assert.ok(reclaims[0]! >= 90, `reclaimed after ${reclaims[0]} ms`);
+        release();
+        assert.equal(limiter.metrics().running, 0);
+    });
+
+    test('an idle limiter does not keep the process alive', async () => {
+        const script = `
+            const { ApiCallLimiter } = require('./src/api/call-limiter');
+            const limiter = new ApiCallLimiter({ requestsPerSecond: 1, burst: 1, windows: [{ limit: 1, intervalMs: 3_600_000 }] });
+            limiter.schedule(() => console.log('dispatched'));
+            limiter.requestSlot({ timeoutMs: 50 }).catch((error) => console.log(error.message));
+        `;
+        assert.deepEqual(await runProcess(script), ['dispatched', 'request timeout']);
+    });
+
+    test('adaptive: a decrease also shrinks the burst', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 10, adaptive: { increaseIntervalMs: 0 } });
+        for (let i = 0; i < 3; i++) {
+            limiter.report('rate-limited');
+        }
+        assert.equal(limiter.metrics().requestsPerSecond, 1.25);
+
+        const start = Date.now();
+        let dispatched = 0;
+        const requests = Array.from({ length: 3 }, () => limiter.schedule(() => {
+            if (Date.now() - start < 100) dispatched++;
+        }));
+        await Promise.all(requests);
+        assert.equal(dispatched, 1);
+    });
+
+    test('schedule releases the slot even when the function throws', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1 });
+
+        await assert.rejects(limiter.schedule(() => { throw new Error('failed'); }), /failed/);
+        assert.equal(limiter.metrics().running, 0);
+        assert.equal(await limiter.schedule(() => 'next', { timeoutMs: 100 }), 'next');
+    });
+
+    test('requests that time out or are aborted leave the queue', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1 });
+        const release = await limiter.requestSlot();
+
+        const controller = new AbortController();
+        const timedOut = limiter.requestSlot({ timeoutMs: 50 });
+        const aborted = limiter.schedule(() => 'never', { signal: controller.signal });
+        setTimeout(() => controller.abort(new Error('aborted')), 20);
+
+        await assert.rejects(aborted, /aborted/);
+        await assert.rejects(timedOut, /request timeout/);
+        const { queued, timeouts, aborts } = limiter.metrics();
+        assert.deepEqual(queued, { high: 0, normal: 0, low: 0 });
+        assert.equal(timeouts, 1);
+        assert.equal(aborts, 1);
+
+        // The next request gets the slot as soon as it is released
+        release();
+        const start = Date.now();
+        (await limiter.requestSlot({ timeoutMs: 1_000 }))();
+        assert.ok(Date.now() - start < 50);
+    });
+
+    test('an aborted signal rejects right away', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000 });
+        await assert.rejects(limiter.schedule(() => 'never', { signal: AbortSignal.abort(new Error('gone')) }), /gone/);
+    });
+
+    test('adaptive: failures decrease the rate, successes bring it back step by step', () => {
+        const limiter = new ApiCallLimiter({
+            requestsPerSecond: 100,
+            adaptive: { increaseIntervalMs: 0, increaseStep: 20, minRequestsPerSecond: 10 },
+        });
+        const changes: number[] = [];
+        limiter.on('rateChange', (requestsPerSecond) => changes.push(requestsPerSecond));
+
+        limiter.report('server-error');
+        limiter.report('rate-limited');
+        limiter.report('rate-limited');
+        limiter.report('rate-limited');
+        for (let i = 0; i < 10; i++) {
+            limiter.report('success');
+        }
+        assert.deepEqual(changes, [50, 25, 12.5, 10, 30, 50, 70, 90, 100]);
+    });
+
+    test('adaptive: decreases count once per interval, but always apply right after an increase', () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 100, adaptive: { increaseIntervalMs: 60_000 } });
+
+        limiter.report('rate-limited');
+        limiter.report('rate-limited');
+        assert.equal(limiter.metrics().requestsPerSecond, 50);
+
+        const fast = new ApiCallLimiter({ requestsPerSecond: 100, adaptive: { increaseIntervalMs: 0 } });
+        fast.report('rate-limited');
+        fast.report('success');
+        fast.report('rate-limited');
+        assert.equal(fast.metrics().requestsPerSecond, 30);
+    });
+
+    test('adaptive: Retry-After pauses every dispatch', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, adaptive: true });
+        limiter.report('rate-limited', { retryAfterMs: parseRetryAfter('0.2') });
+        assert.ok(limiter.metrics().pausedUntil !== null);
+
+        const start = Date.now();
+        await limiter.schedule(() => undefined);
+        assert.ok(Date.now() - start >= 190, `dispatched after ${Date.now() - start} ms`);
+    });
+
+    test('parseRetryAfter reads seconds and HTTP dates', () => {
+        assert.equal(parseRetryAfter('3'), 3_000);
+        assert.equal(parseRetryAfter(null), undefined);
+        assert.equal(parseRetryAfter('soon'), undefined);
+        const delay = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())!;
+        assert.ok(delay > 8_000 && delay <= 10_000);
+    });
+
+    test('sliding window: requests over the limit wait for the window to slide', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, windows: [{ limit: 2, intervalMs: 300 }] });
+        const times = await dispatchTimes(limiter, 3);
+
+        assert.ok(times[1]! < 50, `2nd request dispatched at ${times[1]} ms`);
+        assert.ok(times[2]! >= 290 && times[2]! < 450, `3rd request dispatched at ${times[2]} ms`);
+    });
+
+    test('maxConcurrent caps the requests in flight', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 2 });
+        let running = 0;
+        let maxRunning = 0;
+
+        await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            running--;
+        })));
+        assert.equal(maxRunning, 2);
+    });
+
+    test('weights count against every limit, and must fit them', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 10, burst: 5, windows: [{ limit: 8, intervalMs: 60_000 }] });
+
+        await assert.rejects(limiter.requestSlot({ weight: 6 }), /weight must be > 0/);
+        (await limiter.requestSlot({ weight: 5 }))();
+        const start = Date.now();
+        (await limiter.requestSlot({ weight: 3 }))(); // waits for 3 tokens, the window still has room
+        assert.ok(Date.now() - start >= 250, `dispatched after ${Date.now() - start} ms`);
+        await assert.rejects(limiter.requestSlot({ timeoutMs: 500 }), /request timeout/); // the window is full
+    });
+
+    test('waiting requests go by priority, and aging promotes the ones waiting too long', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1, agingMs: 50 });
+        const order: string[] = [];
+        const run = (name: string, priority: ApiCallLimiter.Priority) => limiter.schedule(() => {
+            order.push(name);
+        }, { priority });
+
+        const release = await limiter.requestSlot();
+        const requests = [run('old low', 'low')];
+        await new Promise((resolve) => setTimeout(resolve, 120)); // promoted twice, as high as a high request
+        requests.push(run('normal', 'normal'), run('high', 'high'), run('low', 'low'));
+        release();
+        await Promise.all(requests);
+
+        assert.deepEqual(order, ['old low', 'high', 'normal', 'low']);
+    });
+
+    test('a full priority queue rejects new requests', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1, maxQueueLength: { low: 1 } });
+        const release = await limiter.requestSlot();
+        const waiting = limiter.requestSlot({ priority: 'low' });
+
+        await assert.rejects(limiter.requestSlot({ priority: 'low' }), LimiterQueueFullError);
+        assert.equal(limiter.metrics().rejections, 1);
+        release();
+        (await waiting)();
+    });
+
+    test('emits an event for each step of a request, and measures the wait times', async () => {
+        const limiter = new ApiCallLimiter({ requestsPerSecond: 10, burst: 1 });
+        const events: string[] = [];
+        limiter.on('enqueue', (priority) => events.push(`enqueue ${priority}`));
+        limiter.on('dispatch', (priority) => events.push(`dispatch ${priority}`));
+        limiter.on('release', () => events.push('release'));
+        limiter.on('rateChange', (requestsPerSecond, reason) => events.push(`rate ${requestsPerSecond} ${reason}`));
+
+        await limiter.schedule(() => undefined, { priority: 'high' });
+        await limiter.schedule(() => undefined, { priority: 'high' });
+        limiter.reduceLimitTemporary(50);
+
+        assert.deepEqual(events, ['enqueue high', 'dispatch high', 'release', 'enqueue high', 'dispatch high', 'release', 'rate 9 reduce']);
+        const { dispatched, reductions, waitTimeMs } = limiter.metrics();
+        assert.equal(dispatched, 2);
+        assert.equal(reductions, 1);
+        assert.equal(waitTimeMs.high.count, 2);
+        assert.ok(waitTimeMs.high.max >= 90, `waited at most ${waitTimeMs.high.max} ms`);
+        assert.equal(waitTimeMs.high.buckets.reduce((total, bucket) => total + bucket.count, 0), 2);
+    });
+});
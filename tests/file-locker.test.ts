@@ -0,0 +1,86 @@
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileLocker } from '../src/runtime/file-locker';
+import { runProcess } from './helpers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('FileLocker', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'ytoolkit-locks-'));
+    });
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('serializes the calls of a process and removes the lock file once released', async () => {
+        const path = join(directory, 'calls.lock');
+        const locker = new FileLocker(path);
+        const events: string[] = [];
+        const run = (name: string) => locker.withLock(async () => {
+            events.push(`${name} start`);
+            await sleep(10);
+            events.push(`${name} end`);
+        });
+
+        await Promise.all([run('first'), run('second')]);
+        assert.deepEqual(events, ['first start', 'first end', 'second start', 'second end']);
+        assert.equal(existsSync(path), false);
+    });
+
+    test('two lockers of the same file exclude each other, and time out while the lock is held', async () => {
+        const path = join(directory, 'shared.lock');
+        const holder = new FileLocker(path, { pollIntervalMs: 10 });
+        const other = new FileLocker(path, { pollIntervalMs: 10 });
+
+        const holding = holder.withLock(() => sleep(100));
+        await sleep(20);
+        await assert.rejects(other.withLock(() => 'never', 30), /timeout/i);
+        await holding;
+        assert.equal(await other.withLock(() => 'free', 1_000), 'free');
+    });
+
+    test('a live holder keeps the lock while it blocks its event loop', async () => {
+        const path = join(directory, 'busy.lock');
+        const script = `
+            const { FileLocker } = require('./src/runtime/file-locker');
+            const locker = new FileLocker(${JSON.stringify(path)}, { staleMs: 200 });
+            locker.withLock(() => {
+                console.log('acquired');
+                const until = Date.now() + 1_000;
+                while (Date.now() < until) {} // no refresh can run meanwhile
+                console.log('released ' + Date.now());
+            });
+        `;
+
+        let acquired: Promise<number> | undefined;
+        const lines = await runProcess(script, (line) => {
+            if (line === 'acquired') {
+                acquired = new FileLocker(path, { staleMs: 200 }).withLock(() => Date.now(), 5_000);
+            }
+        });
+        const releasedAt = Number(lines.find((line) => line.startsWith('released'))!.split(' ')[1]);
+
+        assert.ok(acquired, 'the holder never acquired the lock');
+        assert.ok(await acquired >= releasedAt, 'the lock was taken while its holder was alive');
+    });
+
+    test('the lock of a process that exited without releasing it is taken over', async () => {
+        const path = join(directory, 'crashed.lock');
+        const script = `
+            const { FileLocker } = require('./src/runtime/file-locker');
+            new FileLocker(${JSON.stringify(path)}).withLock(() => process.exit(0));
+        `;
+        await runProcess(script);
+        assert.equal(existsSync(path), true);
+
+        // staleMs is far longer than the timeout: only the dead process can explain the takeover
+        const locker = new FileLocker(path, { staleMs: 60_000 });
+        assert.equal(await locker.withLock(() => 'taken over', 1_000), 'taken over');
+    });
+});
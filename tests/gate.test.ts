@@ -0,0 +1,75 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Gate, GateClosedError } from '../src/runtime/gate';
+
+describe('Gate', () => {
+    test('waiters go through once the gate opens, and right away while it is open', async () => {
+        const gate = new Gate();
+        const waiting = [gate.enterOrWait(), gate.enterOrWait()];
+        assert.equal(gate.getWaitingCount(), 2);
+
+        gate.open();
+        await Promise.all(waiting);
+        assert.equal(gate.getWaitingCount(), 0);
+        assert.equal(gate.isOpen(), true);
+        await gate.enterOrWait();
+    });
+
+    test('a waiter timing out leaves on its own', async () => {
+        const gate = new Gate();
+        const timedOut = gate.enterOrWait({ timeoutMs: 10 });
+        const waiting = gate.enterOrWait();
+
+        await assert.rejects(timedOut, /wait timeout/);
+        assert.equal(gate.getWaitingCount(), 1);
+        gate.open();
+        await waiting;
+    });
+
+    test('an aborted waiter leaves with the reason of its signal', async () => {
+        const gate = new Gate();
+        const controller = new AbortController();
+        const aborted = gate.enterOrWait({ signal: controller.signal });
+        const waiting = gate.enterOrWait();
+
+        controller.abort(new Error('gave up'));
+        await assert.rejects(aborted, /gave up/);
+        assert.equal(gate.getWaitingCount(), 1);
+        await assert.rejects(gate.enterOrWait({ signal: controller.signal }), /gave up/);
+
+        gate.open();
+        await waiting;
+    });
+
+    test('closing with rejectPending rejects each waiter with a GateClosedError', async () => {
+        const gate = new Gate();
+        const waiting = [gate.enterOrWait(), gate.enterOrWait()];
+
+        gate.close({ rejectPending: true, reason: 'shutting down' });
+        for (const waiter of waiting) {
+            await assert.rejects(waiter, (err) => {
+                assert.ok(err instanceof GateClosedError);
+                assert.equal(err.reason, 'shutting down');
+                assert.equal(err.message, 'shutting down');
+                return true;
+            });
+        }
+        assert.equal(gate.getWaitingCount(), 0);
+
+        const legacy = gate.enterOrWait();
+        gate.close(true);
+        await assert.rejects(legacy, (err) => err instanceof GateClosedError && err.message === 'Gate closed');
+    });
+
+    test('closing without rejectPending keeps the waiters', async () => {
+        const gate = new Gate();
+        gate.open();
+        gate.close();
+        const waiting = gate.enterOrWait();
+
+        gate.close();
+        assert.equal(gate.getWaitingCount(), 1);
+        gate.open();
+        await waiting;
+    });
+});
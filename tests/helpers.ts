@@ -0,0 +1,41 @@
+import { spawn } from 'node:child_process';
+import { join } from 'node:path';
+
+/** Root of the repository, from which the scripts of runProcess are run */
+const ROOT = join(__dirname, '..');
+
+/**
+ * Runs a script in another Node process (it can require the TypeScript sources), and returns its output lines
+ * @param script The CommonJS script to run, from the repository root
+ * @param onLine Called with each line printed by the process, as soon as it is printed
+ * @param timeoutMs Time in milliseconds after which the process is killed, if it didn't exit by itself
+ * @returns The lines printed by the process, once it exited
+ * @throws Error (through the promise) if the process exits with an error code or is killed
+ */
+export function runProcess(script: string, onLine: (line: string) => void = () => undefined, timeoutMs: number = 10_000): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(process.execPath, ['--import', 'tsx', '-e', script], { cwd: ROOT, stdio: ['ignore', 'pipe', 'inherit'] });
+        const timer = setTimeout(() => child.kill(), timeoutMs);
+        const lines: string[] = [];
+        let buffer = '';
+
+        child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+            buffer += chunk;
+            const parts = buffer.split('\n');
+            buffer = parts.pop()!;
+            for (const line of parts) {
+                lines.push(line);
+                onLine(line);
+            }
+        });
+        child.on('error', reject);
+        child.on('exit', (code, signal) => {
+            clearTimeout(timer);
+            if (code === 0) {
+                resolve(lines);
+            } else {
+                reject(new Error(signal ? `process killed (${signal})` : `process exited with code ${code}`));
+            }
+        });
+    });
+}
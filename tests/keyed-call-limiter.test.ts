@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyedApiCallLimiter } from '../src/api/keyed-call-limiter';
+import { MemoryLimiterStore } from '../src/api/limiter-store';
+
+describe('KeyedApiCallLimiter', () => {
+    test('an idle key keeps its limiter until its windows are replenished', async () => {
+        const limiter = new KeyedApiCallLimiter({
+            template: { requestsPerSecond: 10, windows: [{ limit: 1, intervalMs: 86_400_000 }] },
+            idleTimeoutMs: 100,
+        });
+
+        (await limiter.for('key').requestSlot())();
+        await new Promise((resolve) => setTimeout(resolve, 300));
+
+        assert.deepEqual(limiter.keys(), ['key']);
+        await assert.rejects(limiter.for('key').requestSlot({ timeoutMs: 100 }), /request timeout/);
+        limiter.dispose();
+    });
+
+    test('each key has its own limits', async () => {
+        const limiter = new KeyedApiCallLimiter({ template: { requestsPerSecond: 1, burst: 1 } });
+        const start = Date.now();
+
+        (await limiter.for('a').requestSlot())();
+        (await limiter.for('b').requestSlot())();
+        assert.ok(Date.now() - start < 50);
+        assert.deepEqual(limiter.keys(), ['a', 'b']);
+        assert.equal(limiter.metrics('a')!.dispatched, 1);
+        assert.equal(limiter.metrics('missing'), null);
+        limiter.dispose();
+    });
+
+    test('the global limiter caps the total rate of every key', async () => {
+        const limiter = new KeyedApiCallLimiter({
+            template: { requestsPerSecond: 100 },
+            global: { requestsPerSecond: 10, burst: 1 },
+        });
+        const start = Date.now();
+
+        (await limiter.for('a').requestSlot())();
+        (await limiter.for('b').requestSlot())();
+        assert.ok(Date.now() - start >= 90, `2nd key dispatched after ${Date.now() - start} ms`);
+        assert.equal(limiter.globalMetrics()!.dispatched, 2);
+        limiter.dispose();
+    });
+
+    test('a store in the template is rejected, each key gets its own through createStore', async () => {
+        const template = { requestsPerSecond: 1, store: new MemoryLimiterStore() } as KeyedApiCallLimiter.Options['template'];
+        assert.throws(() => new KeyedApiCallLimiter({ template }), /createStore/);
+
+        const keys: string[] = [];
+        const limiter = new KeyedApiCallLimiter({
+            template: { requestsPerSecond: 1, burst: 1 },
+            createStore: (key) => {
+                keys.push(key);
+                return new MemoryLimiterStore();
+            },
+        });
+        (await limiter.for('a').requestSlot())();
+        (await limiter.for('b').requestSlot({ timeoutMs: 50 }))();
+        assert.deepEqual(keys, ['a', 'b']);
+        limiter.dispose();
+    });
+
+    test('idle keys are dropped', async () => {
+        const limiter = new KeyedApiCallLimiter({ template: { requestsPerSecond: 100, burst: 1 }, idleTimeoutMs: 50 });
+        (await limiter.for('key').requestSlot())();
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        assert.deepEqual(limiter.keys(), []);
+        limiter.dispose();
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyedLocker } from '../src/runtime/keyed-locker';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('KeyedLocker', () => {
+    test('serializes the calls of a key without blocking the other keys', async () => {
+        const locker = new KeyedLocker();
+        const events: string[] = [];
+        const run = (key: string, name: string, ms: number) => locker.withLock(key, async () => {
+            events.push(`${name} start`);
+            await sleep(ms);
+            events.push(`${name} end`);
+        });
+
+        await Promise.all([run('a', 'a1', 30), run('a', 'a2', 10), run('b', 'b1', 10)]);
+        assert.deepEqual(events, ['a1 start', 'b1 start', 'b1 end', 'a1 end', 'a2 start', 'a2 end']);
+    });
+
+    test('drops the state of a key once it is released with nobody waiting', async () => {
+        const locker = new KeyedLocker();
+
+        const holding = locker.withLock('a', () => sleep(10));
+        assert.equal(locker.isLocked('a'), true);
+        await holding;
+        assert.equal(locker.isLocked('a'), false);
+
+        await assert.rejects(locker.withLock('b', () => { throw new Error('failed'); }), /failed/);
+        assert.equal(locker.isLocked('b'), false);
+    });
+
+    test('withLocks takes the keys in the same order whatever the order given, so it never deadlocks', async () => {
+        const locker = new KeyedLocker();
+        let balanceA = 100;
+        let balanceB = 100;
+        const transfer = (from: 'a' | 'b', amount: number) => locker.withLocks([from, from === 'a' ? 'b' : 'a'], async () => {
+            const [source, target] = from === 'a' ? [balanceA, balanceB] : [balanceB, balanceA];
+            await sleep(5);
+            if (from === 'a') {
+                [balanceA, balanceB] = [source - amount, target + amount];
+            } else {
+                [balanceB, balanceA] = [source - amount, target + amount];
+            }
+        }, 1_000);
+
+        await Promise.all([transfer('a', 10), transfer('b', 20), transfer('a', 30), transfer('b', 40)]);
+        assert.deepEqual([balanceA, balanceB], [120, 80]);
+        assert.equal(locker.isLocked('a') || locker.isLocked('b'), false);
+    });
+
+    test('withLocks keeps no lock when it times out', async () => {
+        const locker = new KeyedLocker();
+        const holding = locker.withLock('b', () => sleep(50));
+
+        await assert.rejects(locker.withLocks(['b', 'a'], () => 'done', 10), /acquire timeout/);
+        assert.equal(locker.isLocked('a'), false);
+        await holding;
+        assert.equal(await locker.withLocks(['a', 'b'], () => 'done'), 'done');
+    });
+
+    test('rejects when the queue of a key is full', async () => {
+        const locker = new KeyedLocker(1);
+        const holding = locker.withLock('a', () => sleep(20));
+        const waiting = locker.withLock('a', () => undefined);
+
+        await assert.rejects(locker.withLock('a', () => undefined), /queue limit reached/);
+        assert.equal(await locker.withLock('b', () => 'other key'), 'other key');
+        await Promise.all([holding, waiting]);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ApiCallLimiter } from '../src/api/call-limiter';
+import { FileLimiterStore, LimiterStore, MemoryLimiterStore } from '../src/api/limiter-store';
+import { runProcess } from './helpers';
+
+describe('MemoryLimiterStore', () => {
+    test('a release by one limiter wakes up the other limiters sharing the store', async () => {
+        const store = new MemoryLimiterStore();
+        const limiterA = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1, store });
+        const limiterB = new ApiCallLimiter({ requestsPerSecond: 1_000, maxConcurrent: 1, store });
+
+        const releaseA = await limiterA.requestSlot();
+        setTimeout(releaseA, 100);
+
+        const start = Date.now();
+        (await limiterB.requestSlot({ timeoutMs: 1_500 }))();
+        assert.ok(Date.now() - start < 300, `limiter B waited ${Date.now() - start} ms`);
+    });
+});
+
+describe('FileLimiterStore', () => {
+    test('a request timed before the lock was taken never moves a window entry back', async () => {
+        const directory = mkdtempSync(join(tmpdir(), 'ytoolkit-store-'));
+        const store = new FileLimiterStore({ path: join(directory, 'limits.json') });
+        const limits: LimiterStore.Limits = {
+            requestsPerSecond: 1_000,
+            burst: 1_000,
+            refillIntervalMs: 1,
+            windows: [{ limit: 2, intervalMs: 1_000 }],
+            maxConcurrent: Infinity,
+        };
+
+        const now = Date.now();
+        assert.equal(await store.acquire(1, limits, now), 0);
+        assert.equal(await store.acquire(1, limits, now - 500), 0); // read its time before waiting for the lock
+        assert.ok(await store.acquire(1, limits, now + 600) > 0, 'the window was bypassed');
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('processes share the same token bucket', async () => {
+        const directory = mkdtempSync(join(tmpdir(), 'ytoolkit-store-'));
+        const script = `
+            const { ApiCallLimiter } = require('./src/api/call-limiter');
+            const { FileLimiterStore } = require('./src/api/limiter-store');
+            const store = new FileLimiterStore({ path: ${JSON.stringify(join(directory, 'limits.json'))} });
+            const limiter = new ApiCallLimiter({ requestsPerSecond: 5, burst: 1, store });
+            (async () => {
+                for (let i = 0; i < 3; i++) {
+                    await limiter.schedule(() => console.log(Date.now()));
+                }
+            })();
+        `;
+
+        const outputs = await Promise.all([runProcess(script), runProcess(script)]);
+        const times = outputs.flat().map(Number).sort((a, b) => a - b);
+        rmSync(directory, { recursive: true, force: true });
+
+        assert.equal(times.length, 6);
+        for (let i = 1; i < times.length; i++) {
+            assert.ok(times[i]! - times[i - 1]! >= 150, `dispatches ${i - 1} and ${i} are ${times[i]! - times[i - 1]!} ms apart`);
+        }
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Locker } from '../src/runtime/locker';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Locker', () => {
+    test('runs the functions one at a time, in order', async () => {
+        const locker = new Locker();
+        const events: string[] = [];
+        const run = (name: string, ms: number) => locker.withLock(async () => {
+            events.push(`${name} start`);
+            await sleep(ms);
+            events.push(`${name} end`);
+        });
+
+        await Promise.all([run('first', 20), run('second', 5), run('third', 5)]);
+        assert.deepEqual(events, ['first start', 'first end', 'second start', 'second end', 'third start', 'third end']);
+        assert.equal(locker.isLocked(), false);
+    });
+
+    test('a waiter timing out leaves the queue and never delays the next ones', async () => {
+        const locker = new Locker();
+        const holding = locker.withLock(() => sleep(50));
+
+        const timedOut = locker.withLock(() => 'never', 10);
+        const next = locker.withLock(() => 'next', 1_000);
+        assert.equal(locker.queueLength(), 2);
+
+        await assert.rejects(timedOut, /acquire timeout/);
+        assert.equal(locker.queueLength(), 1);
+        await holding;
+        assert.equal(await next, 'next');
+        assert.equal(await locker.withLock(() => 'after'), 'after');
+        assert.equal(locker.isLocked(), false);
+    });
+
+    test('an aborted waiter leaves the queue with the reason of its signal', async () => {
+        const locker = new Locker();
+        const holding = locker.withLock(() => sleep(30));
+        const controller = new AbortController();
+
+        const aborted = locker.withLock(() => 'never', { signal: controller.signal });
+        controller.abort(new Error('gave up'));
+        await assert.rejects(aborted, /gave up/);
+        assert.equal(locker.queueLength(), 0);
+
+        await assert.rejects(locker.withLock(() => 'never', { signal: controller.signal }), /gave up/);
+        await holding;
+    });
+
+    test('tryWithLock fails fast when the lock is held', async () => {
+        const locker = new Locker();
+        const holding = locker.withLock(() => sleep(20));
+
+        await assert.rejects(locker.tryWithLock(() => 'never'), /already locked/);
+        await holding;
+        assert.equal(await locker.tryWithLock(() => 'free'), 'free');
+    });
+
+    test('warns with the call site when the lock is held too long', async () => {
+        const warnings: string[] = [];
+        const locker = new Locker({ holdWarningMs: 20, logger: { warn: (message: string) => warnings.push(message) } });
+
+        await locker.withLock(() => sleep(5));
+        assert.deepEqual(warnings, []);
+
+        await locker.withLock(() => sleep(50));
+        assert.equal(warnings.length, 1);
+        assert.match(warnings[0]!, /held for more than 20 ms/);
+        assert.match(warnings[0]!, /locker\.test\.ts/);
+    });
+
+    test('rejects when the queue is full', async () => {
+        const locker = new Locker(1);
+        const holding = locker.withLock(() => sleep(20));
+        const waiting = locker.withLock(() => undefined);
+
+        await assert.rejects(locker.withLock(() => undefined), /queue limit reached/);
+        await Promise.all([holding, waiting]);
+    });
+});
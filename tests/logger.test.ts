@@ -1,4 +1,4 @@
-import { Logger } from '../src/classes/logger';
+import { Logger } from '../src/runtime/logger';
 
 /**
  * Tests for Readiness class
@@ -0,0 +1,64 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReadWriteLocker } from '../src/runtime/read-write-locker';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ReadWriteLocker', () => {
+    test('readers share the lock while a writer holds it alone', async () => {
+        const locker = new ReadWriteLocker();
+        const events: string[] = [];
+        const read = (name: string) => locker.withReadLock(async () => {
+            events.push(`${name} start`);
+            await sleep(30);
+            events.push(`${name} end`);
+        });
+
+        await Promise.all([
+            read('r1'),
+            read('r2'),
+            locker.withWriteLock(async () => {
+                events.push('w start');
+                await sleep(10);
+                events.push('w end');
+            }),
+            read('r3'),
+        ]);
+
+        assert.deepEqual(events, ['r1 start', 'r2 start', 'r1 end', 'r2 end', 'w start', 'w end', 'r3 start', 'r3 end']);
+    });
+
+    test('with preferWriters, new readers wait behind a waiting writer', async () => {
+        const locker = new ReadWriteLocker({ preferWriters: true });
+        const events: string[] = [];
+
+        const holding = locker.withReadLock(() => sleep(30));
+        const writing = locker.withWriteLock(() => events.push('write'));
+        const reading = locker.withReadLock(() => events.push('read'));
+        await Promise.all([holding, writing, reading]);
+
+        assert.deepEqual(events, ['write', 'read']);
+    });
+
+    test('a writer timing out leaves the queue and lets the readers behind it go', async () => {
+        const locker = new ReadWriteLocker();
+        const holding = locker.withReadLock(() => sleep(100));
+
+        const writing = locker.withWriteLock(() => 'written', 20);
+        const start = Date.now();
+        const reading = locker.withReadLock(() => Date.now() - start);
+
+        await assert.rejects(writing, /acquire timeout/);
+        assert.ok(await reading < 80, 'the reader waited for the holder to finish');
+        await holding;
+    });
+
+    test('rejects when the queue is full', async () => {
+        const locker = new ReadWriteLocker({ maxQueueLength: 1 });
+        const holding = locker.withWriteLock(() => sleep(20));
+        const waiting = locker.withReadLock(() => 'read');
+
+        await assert.rejects(locker.withReadLock(() => 'read'), /queue limit reached/);
+        await Promise.all([holding, waiting]);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Semaphore } from '../src/runtime/semaphore';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Semaphore', () => {
+    test('runs at most `permits` operations at once', async () => {
+        const semaphore = new Semaphore(2);
+        let running = 0;
+        let maxRunning = 0;
+        const operation = async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await sleep(20);
+            running--;
+        };
+
+        await Promise.all(Array.from({ length: 6 }, () => semaphore.withPermit(operation)));
+        assert.equal(maxRunning, 2);
+        assert.equal(semaphore.availablePermits(), 2);
+    });
+
+    test('a heavy operation at the head of the queue is not overtaken by lighter ones', async () => {
+        const semaphore = new Semaphore(3);
+        const events: string[] = [];
+
+        const holding = semaphore.withPermit(() => sleep(30), 2);
+        const heavy = semaphore.withPermit(() => events.push('heavy'), 3);
+        const light = semaphore.withPermit(() => events.push('light'), 1);
+        await Promise.all([holding, heavy, light]);
+
+        assert.deepEqual(events, ['heavy', 'light']);
+    });
+
+    test('a waiter timing out leaves the queue and lets the next one take the permits', async () => {
+        const semaphore = new Semaphore(2);
+        const holding = semaphore.withPermit(() => sleep(100), 1);
+
+        const heavy = semaphore.withPermit(() => 'heavy', 2, 20);
+        const start = Date.now();
+        const light = semaphore.withPermit(() => Date.now() - start, 1);
+
+        await assert.rejects(heavy, /acquire timeout/);
+        assert.ok(await light < 80, 'the light operation waited for the holder to finish');
+        await holding;
+    });
+
+    test('rejects invalid weights and a full queue', async () => {
+        assert.throws(() => new Semaphore(0), /positive integer/);
+
+        const semaphore = new Semaphore(1, 1);
+        await assert.rejects(semaphore.withPermit(() => undefined, 2), /between 1 and 1/);
+
+        const holding = semaphore.withPermit(() => sleep(20));
+        const waiting = semaphore.withPermit(() => undefined);
+        await assert.rejects(semaphore.withPermit(() => undefined), /queue limit reached/);
+        await Promise.all([holding, waiting]);
+    });
+});